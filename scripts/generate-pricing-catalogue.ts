@@ -0,0 +1,118 @@
+/**
+ * Generates `src/pricing/pricing-catalogue.generated.ts` from a provider
+ * model list (default: `models.json`), then formats it. Re-run with
+ * `npm run generate:pricing` whenever prices change, after downloading a
+ * fresh list:
+ *
+ *     curl https://openrouter.ai/api/v1/models > models.json
+ *
+ * Source format: OpenRouter's model list, `{ data: [{ id, pricing }] }`,
+ * where `id` is `"<vendor>/<model>"` and every price is a decimal string in
+ * USD per token (per call for `request`). The snapshot is committed, so
+ * nothing is fetched at runtime and builds stay offline.
+ *
+ * Only the vendors this package has a provider type for are kept (their
+ * models are also reachable through OpenRouter), minus OpenRouter-only
+ * variants (`:free`, `:beta`, ...) and models priced at zero or at a
+ * negative "variable" price (routers like `openrouter/auto`).
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(SCRIPT_DIR, '..');
+const OUTPUT_PATH = path.join(ROOT_DIR, 'src/pricing/pricing-catalogue.generated.ts');
+
+/** Model-list vendors kept in the catalogue. */
+const VENDORS = new Set(['anthropic', 'google', 'mistralai', 'openai']);
+
+/** Model-list price fields, mapped to the `CostPricing` rate they become. */
+const RATE_FIELDS = {
+    completion: 'output',
+    input_cache_read: 'cacheRead',
+    input_cache_write: 'cacheWrite',
+    internal_reasoning: 'reasoning',
+    prompt: 'input',
+} as const;
+
+interface ListedModel {
+    readonly id: string;
+    readonly pricing?: Partial<Record<keyof typeof RATE_FIELDS | 'request', string>>;
+}
+
+type Rates = Partial<Record<(typeof RATE_FIELDS)[keyof typeof RATE_FIELDS] | 'perRequest', number>>;
+
+/** USD per token (a decimal string) to USD per million tokens, without float noise. */
+function perMillion(perToken: string): number {
+    return Number((Number(perToken) * 1_000_000).toPrecision(10));
+}
+
+function toRates(pricing: NonNullable<ListedModel['pricing']>): Rates | undefined {
+    const rates: Rates = {};
+    for (const [field, rate] of Object.entries(RATE_FIELDS)) {
+        const price = pricing[field as keyof typeof RATE_FIELDS];
+        if (price !== undefined && Number(price) > 0) {
+            rates[rate] = perMillion(price);
+        }
+    }
+    if (pricing.request !== undefined && Number(pricing.request) > 0) {
+        rates.perRequest = Number(pricing.request);
+    }
+    // Negative prices mark variable pricing, which no snapshot can capture.
+    const variable = Object.values(pricing).some((price) => Number(price) < 0);
+    return variable || rates.input === undefined ? undefined : rates;
+}
+
+/** Single-quoted object literal with sorted keys, matching this repo's formatting style. */
+function literal(rates: Rates): string {
+    const entries = Object.entries(rates)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([rate, value]) => `${rate}: ${value}`);
+    return `{ ${entries.join(', ')} }`;
+}
+
+function main(): void {
+    const sourcePath = process.argv[2] ?? 'models.json';
+    const { data } = JSON.parse(readFileSync(sourcePath, 'utf8')) as { data: ListedModel[] };
+
+    const catalogue = new Map<string, Rates>();
+    for (const model of data) {
+        const [vendor] = model.id.split('/');
+        if (!VENDORS.has(vendor) || model.id.includes(':') || !model.pricing) {
+            continue;
+        }
+        const rates = toRates(model.pricing);
+        if (rates) {
+            catalogue.set(model.id, rates);
+        }
+    }
+
+    const ids = [...catalogue.keys()].sort((a, b) => a.localeCompare(b));
+    const vendorCounts = [...VENDORS]
+        .map((vendor) => `${vendor}: ${ids.filter((id) => id.startsWith(`${vendor}/`)).length}`)
+        .join(', ');
+
+    const output = `/**
+ * GENERATED FILE — do not edit, run \`npm run generate:pricing\`.
+ *
+ * Source: an OpenRouter model list (see scripts/generate-pricing-catalogue.ts
+ * for the pipeline), keyed by OpenRouter model id. Token rates are in USD per
+ * million tokens, \`perRequest\` in USD per call.
+ *
+ * Models: ${ids.length} (${vendorCounts})
+ */
+import type { CostPricing } from '../middleware/cost.middleware.js';
+
+export const GENERATED_PRICING: Readonly<Record<string, CostPricing>> = {
+${ids.map((id) => `    '${id}': ${literal(catalogue.get(id) ?? {})},`).join('\n')}
+};
+`;
+
+    writeFileSync(OUTPUT_PATH, output);
+
+    console.log(`Wrote ${ids.length} model prices to ${path.relative(ROOT_DIR, OUTPUT_PATH)}`);
+    console.log(`  ${vendorCounts}`);
+}
+
+main();
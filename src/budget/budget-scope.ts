@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** USD spent within one scope, per budget tracker and budget name */
+export type BudgetScope = Map<string, number>;
+
+const storage = new AsyncLocalStorage<BudgetScope>();
+
+/**
+ * Runs `fn` in a fresh budget scope: budgets with a `'scope'` window count
+ * only the spend of calls made within it — typically one incoming request or
+ * one job. Outside any scope, `'scope'` limits don't apply.
+ *
+ * @example
+ * ```ts
+ * app.post('/summarize', (req, res) =>
+ *   withBudgetScope(async () => {
+ *     const { text } = await generateText({ model, prompt: req.body.text });
+ *     res.json({ text });
+ *   }),
+ * );
+ * ```
+ */
+export function withBudgetScope<T>(fn: () => T): T {
+    return storage.run(new Map(), fn);
+}
+
+/** The budget scope of the current async context, if any */
+export function activeBudgetScope(): BudgetScope | undefined {
+    return storage.getStore();
+}
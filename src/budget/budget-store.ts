@@ -0,0 +1,30 @@
+/**
+ * Counter storage for budgets: USD spent per key. Implement it over Redis (or
+ * any shared store with atomic increments) to have several workers share a
+ * budget.
+ *
+ * @example
+ * ```ts
+ * const redisStore: BudgetStore = {
+ *   async get(key) {
+ *     return Number((await redis.get(key)) ?? 0);
+ *   },
+ *   async increment(key, amount, ttlMs) {
+ *     const total = Number(await redis.incrbyfloat(key, amount));
+ *     if (ttlMs) {
+ *       await redis.pexpire(key, ttlMs, 'NX');
+ *     }
+ *     return total;
+ *   },
+ * };
+ * ```
+ */
+export interface BudgetStore {
+    /** USD spent under `key`, 0 if nothing was spent or the counter expired */
+    get: (key: string) => Promise<number>;
+    /**
+     * Adds `amount` to the counter under `key` and resolves with the new
+     * total. A counter created by this call expires after `ttlMs`, if given.
+     */
+    increment: (key: string, amount: number, ttlMs?: number) => Promise<number>;
+}
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createMemoryBudgetStore } from './memory-budget-store.js';
+
+describe('createMemoryBudgetStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('accumulates increments until the counter expires', async () => {
+        // Given
+        const store = createMemoryBudgetStore();
+        await store.increment('global', 0.25, 1000);
+
+        // When -- a later increment does not extend the expiry
+        vi.advanceTimersByTime(500);
+        const total = await store.increment('global', 0.5, 1000);
+
+        // Then
+        expect(total).toBe(0.75);
+        vi.advanceTimersByTime(500);
+        expect(await store.get('global')).toBe(0);
+    });
+});
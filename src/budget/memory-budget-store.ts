@@ -0,0 +1,39 @@
+import type { BudgetStore } from './budget-store.js';
+
+interface Counter {
+    total: number;
+    expiresAt: number | undefined;
+}
+
+/**
+ * Creates an in-process `BudgetStore`. Budgets only hold within this
+ * process: use a shared store for budgets spanning several workers.
+ */
+export function createMemoryBudgetStore(): BudgetStore {
+    const counters = new Map<string, Counter>();
+
+    function live(key: string): Counter | undefined {
+        const counter = counters.get(key);
+        if (counter?.expiresAt !== undefined && counter.expiresAt <= Date.now()) {
+            counters.delete(key);
+            return undefined;
+        }
+        return counter;
+    }
+
+    return {
+        async get(key) {
+            return live(key)?.total ?? 0;
+        },
+
+        async increment(key, amount, ttlMs) {
+            const counter = live(key) ?? {
+                expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+                total: 0,
+            };
+            counter.total += amount;
+            counters.set(key, counter);
+            return counter.total;
+        },
+    };
+}
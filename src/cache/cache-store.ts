@@ -0,0 +1,25 @@
+/**
+ * Storage backend for `createCacheMiddleware`. Values are plain
+ * JSON-serializable objects; a store only has to keep them for `ttlMs` (if
+ * given) and hand them back unchanged. Implement it over Redis, Memcached or
+ * a database table to share a cache between processes.
+ *
+ * @example
+ * ```ts
+ * const redisStore: CacheStore = {
+ *   async get(key) {
+ *     const raw = await redis.get(key);
+ *     return raw === null ? undefined : JSON.parse(raw);
+ *   },
+ *   async set(key, value, ttlMs) {
+ *     await redis.set(key, JSON.stringify(value), ...(ttlMs ? ['PX', ttlMs] : []));
+ *   },
+ * };
+ * ```
+ */
+export interface CacheStore {
+    /** The value stored under `key`, or `undefined` if missing or expired */
+    get: (key: string) => Promise<unknown>;
+    /** Store `value` under `key`, for `ttlMs` milliseconds if given */
+    set: (key: string, value: unknown, ttlMs?: number) => Promise<void>;
+}
@@ -0,0 +1,145 @@
+import { createHash } from 'node:crypto';
+
+import type {
+    LanguageModelV4CallOptions,
+    LanguageModelV4GenerateResult,
+    LanguageModelV4StreamPart,
+} from '@ai-sdk/provider';
+
+export type CallMode = 'generate' | 'stream';
+
+/**
+ * Converts `value` into plain JSON with sorted object keys, so equal inputs
+ * always serialize the same way: bytes become base64, URLs their href and
+ * dates ISO strings; `undefined` properties are dropped.
+ */
+export function toJson(value: unknown): unknown {
+    if (value instanceof Uint8Array) {
+        return Buffer.from(value).toString('base64');
+    }
+    if (value instanceof URL) {
+        return value.href;
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(toJson);
+    }
+    if (value !== null && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return Object.fromEntries(
+            Object.keys(record)
+                .sort()
+                .filter((key) => record[key] !== undefined)
+                .map((key) => [key, toJson(record[key])]),
+        );
+    }
+    return value;
+}
+
+/**
+ * The parts of the call options that shape the response, normalized. The
+ * abort signal and headers are left out: they change per call, not the answer.
+ */
+export function normalizeCall(
+    mode: CallMode,
+    modelRef: string,
+    params: LanguageModelV4CallOptions,
+): unknown {
+    return toJson({
+        frequencyPenalty: params.frequencyPenalty,
+        includeRawChunks: params.includeRawChunks,
+        maxOutputTokens: params.maxOutputTokens,
+        mode,
+        model: modelRef,
+        presencePenalty: params.presencePenalty,
+        prompt: params.prompt,
+        providerOptions: params.providerOptions,
+        reasoning: params.reasoning,
+        responseFormat: params.responseFormat,
+        seed: params.seed,
+        stopSequences: params.stopSequences,
+        temperature: params.temperature,
+        toolChoice: params.toolChoice,
+        tools: params.tools,
+        topK: params.topK,
+        topP: params.topP,
+    });
+}
+
+/** SHA-256 hex digest of a normalized call, as returned by `normalizeCall` */
+export function hashCall(normalized: unknown): string {
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * A generate result ready to store as JSON: the raw request and response
+ * bodies are dropped, they can be large and nothing reads them back.
+ */
+export function storableGenerateResult(result: LanguageModelV4GenerateResult): unknown {
+    return toJson({
+        ...result,
+        request: undefined,
+        response: result.response && { ...result.response, body: undefined },
+    });
+}
+
+function reviveTimestamp<T extends { timestamp?: Date }>(metadata: T): T {
+    return typeof metadata.timestamp === 'string'
+        ? { ...metadata, timestamp: new Date(metadata.timestamp) }
+        : metadata;
+}
+
+export function reviveGenerateResult(value: unknown): LanguageModelV4GenerateResult {
+    const result = value as LanguageModelV4GenerateResult;
+    return result.response ? { ...result, response: reviveTimestamp(result.response) } : result;
+}
+
+export function reviveStreamPart(value: unknown): LanguageModelV4StreamPart {
+    const part = value as LanguageModelV4StreamPart;
+    return part.type === 'response-metadata' ? reviveTimestamp(part) : part;
+}
+
+/** A stream replaying `parts` at once */
+export function replayStream(parts: unknown[]): ReadableStream<LanguageModelV4StreamPart> {
+    const revived = parts.map(reviveStreamPart);
+    return new ReadableStream<LanguageModelV4StreamPart>({
+        start(controller) {
+            for (const part of revived) {
+                controller.enqueue(part);
+            }
+            controller.close();
+        },
+    });
+}
+
+/**
+ * Passes `stream` through unchanged, calling `onComplete` with every part
+ * once it ends — unless it carried an error part or no `finish` part, which
+ * are not worth storing. The stream closes once `onComplete` settles.
+ */
+export function recordStream(
+    stream: ReadableStream<LanguageModelV4StreamPart>,
+    onComplete: (parts: LanguageModelV4StreamPart[]) => Promise<void> | void,
+): ReadableStream<LanguageModelV4StreamPart> {
+    const parts: LanguageModelV4StreamPart[] = [];
+    let failed = false;
+
+    return stream.pipeThrough(
+        new TransformStream<LanguageModelV4StreamPart, LanguageModelV4StreamPart>({
+            transform(chunk, controller) {
+                if (chunk.type === 'error') {
+                    failed = true;
+                }
+                parts.push(chunk);
+                controller.enqueue(chunk);
+            },
+            async flush() {
+                if (!failed && parts.some((part) => part.type === 'finish')) {
+                    await onComplete(parts);
+                }
+            },
+        }),
+    );
+}
@@ -0,0 +1,64 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createFileCacheStore } from './file-cache-store.js';
+
+describe('createFileCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'intelligence-cache-'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(directory, { force: true, recursive: true });
+    });
+
+    test('persists values across store instances', async () => {
+        // Given
+        await createFileCacheStore({ directory }).set('a', { text: 'cached' });
+
+        // Then
+        expect(await createFileCacheStore({ directory }).get('a')).toEqual({ text: 'cached' });
+        expect(await readdir(directory)).toEqual(['a.json']);
+    });
+
+    test('keeps one complete entry when the same key is written concurrently', async () => {
+        // Given
+        const store = createFileCacheStore({ directory });
+
+        // When
+        await Promise.all(
+            Array.from({ length: 10 }, (_, index) => store.set('a', { text: 'x'.repeat(index) })),
+        );
+
+        // Then -- every write landed whole and no temp file is left behind
+        expect(await store.get('a')).toEqual({ text: expect.stringMatching(/^x*$/) });
+        expect(await readdir(directory)).toEqual(['a.json']);
+    });
+
+    test('treats missing entries as misses', async () => {
+        // Given
+        const store = createFileCacheStore({ directory: join(directory, 'not-created') });
+
+        // Then
+        expect(await store.get('a')).toBeUndefined();
+    });
+
+    test('deletes expired entries when read', async () => {
+        // Given
+        const store = createFileCacheStore({ directory });
+        await store.set('a', 1, 1000);
+
+        // When
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+
+        // Then
+        expect(await store.get('a')).toBeUndefined();
+        expect(await readdir(directory)).toEqual([]);
+    });
+});
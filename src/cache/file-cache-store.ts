@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { CacheStore } from './cache-store.js';
+
+interface FileEntry {
+    value: unknown;
+    expiresAt: number | null;
+}
+
+export interface FileCacheStoreOptions {
+    /** Directory holding one JSON file per entry, created on first write */
+    directory: string;
+}
+
+/**
+ * Creates a `CacheStore` persisting each entry as a JSON file in
+ * `directory` — enough to share a cache between runs of a batch job on the
+ * same machine. Expired entries are deleted when read. Keys are used as file
+ * names, so they must be filesystem-safe (`createCacheMiddleware` keys are
+ * hex digests).
+ */
+export function createFileCacheStore(options: FileCacheStoreOptions): CacheStore {
+    const { directory } = options;
+
+    function pathOf(key: string): string {
+        return join(directory, `${key}.json`);
+    }
+
+    return {
+        async get(key) {
+            let entry: FileEntry;
+            try {
+                entry = JSON.parse(await readFile(pathOf(key), 'utf8')) as FileEntry;
+            } catch {
+                // Missing or unreadable entries are cache misses.
+                return undefined;
+            }
+            if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+                await rm(pathOf(key), { force: true });
+                return undefined;
+            }
+            return entry.value;
+        },
+
+        async set(key, value, ttlMs) {
+            const entry: FileEntry = {
+                expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs,
+                value,
+            };
+            await mkdir(directory, { recursive: true });
+            // Write then rename, so a concurrent reader never sees a partial file.
+            // The temp name is unique per write, so concurrent writes of one key don't collide.
+            const temporaryPath = `${pathOf(key)}.${randomUUID()}.tmp`;
+            await writeFile(temporaryPath, JSON.stringify(entry));
+            await rename(temporaryPath, pathOf(key));
+        },
+    };
+}
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createMemoryCacheStore } from './memory-cache-store.js';
+
+describe('createMemoryCacheStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('returns stored values until their TTL elapses', async () => {
+        // Given
+        const store = createMemoryCacheStore();
+        await store.set('a', { text: 'cached' }, 1000);
+
+        // Then
+        expect(await store.get('a')).toEqual({ text: 'cached' });
+        vi.advanceTimersByTime(1000);
+        expect(await store.get('a')).toBeUndefined();
+    });
+
+    test('evicts the least recently used entry past maxEntries', async () => {
+        // Given -- a full store whose oldest entry was just read
+        const store = createMemoryCacheStore({ maxEntries: 2 });
+        await store.set('a', 1);
+        await store.set('b', 2);
+        await store.get('a');
+
+        // When
+        await store.set('c', 3);
+
+        // Then
+        expect(await store.get('a')).toBe(1);
+        expect(await store.get('b')).toBeUndefined();
+        expect(await store.get('c')).toBe(3);
+    });
+});
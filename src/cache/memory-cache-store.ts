@@ -0,0 +1,52 @@
+import type { CacheStore } from './cache-store.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface MemoryEntry {
+    value: unknown;
+    expiresAt: number | undefined;
+}
+
+export interface MemoryCacheStoreOptions {
+    /** Entries kept before the least recently used one is evicted (default: 1000) */
+    maxEntries?: number;
+}
+
+/**
+ * Creates an in-process LRU `CacheStore`. Entries are evicted once
+ * `maxEntries` is exceeded, least recently read first, and dropped on read
+ * once their TTL has elapsed.
+ */
+export function createMemoryCacheStore(options: MemoryCacheStoreOptions = {}): CacheStore {
+    const { maxEntries = DEFAULT_MAX_ENTRIES } = options;
+    // A Map iterates in insertion order: re-inserting on read keeps the least
+    // Recently used entry first.
+    const entries = new Map<string, MemoryEntry>();
+
+    return {
+        async get(key) {
+            const entry = entries.get(key);
+            if (!entry) {
+                return undefined;
+            }
+            entries.delete(key);
+            if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+                return undefined;
+            }
+            entries.set(key, entry);
+            return entry.value;
+        },
+
+        async set(key, value, ttlMs) {
+            entries.delete(key);
+            entries.set(key, {
+                expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+                value,
+            });
+            while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value as string;
+                entries.delete(oldest);
+            }
+        },
+    };
+}
@@ -1,7 +1,15 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import { APICallError } from '@ai-sdk/provider';
-import { generateText } from 'ai';
-import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { trace } from '@opentelemetry/api';
+import { embed, experimental_transcribe as transcribe, generateImage, generateText } from 'ai';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
+import { createMemoryCacheStore } from '../cache/memory-cache-store.js';
+import { createMetadataCostExtractor } from '../middleware/cost.middleware.js';
+import { withUsageScope } from '../usage/usage-scope.js';
 import { createIntelligence } from './create-intelligence.js';
 
 const { modelOverrides } = vi.hoisted(() => ({
@@ -17,43 +25,86 @@ function baseGenerateResult(id: string) {
     };
 }
 
-vi.mock('@openrouter/ai-sdk-provider', () => {
-    function makeModel(id: string) {
-        return {
-            specificationVersion: 'v4' as const,
-            provider: 'openrouter',
-            modelId: id,
-            supportedUrls: {},
-            doGenerate: vi.fn(async () => {
-                const override = modelOverrides.get(id);
-                return override ? override() : baseGenerateResult(id);
-            }),
-            doStream: vi.fn(),
-        };
-    }
+function makeModel(provider: string, id: string) {
     return {
-        createOpenRouter: vi.fn(() => (id: string) => makeModel(id)),
+        specificationVersion: 'v4' as const,
+        provider,
+        modelId: id,
+        supportedUrls: {},
+        doGenerate: vi.fn(async () => {
+            const override = modelOverrides.get(id);
+            return override ? override() : baseGenerateResult(id);
+        }),
+        doStream: vi.fn(),
     };
-});
+}
 
-vi.mock('@ai-sdk/openai', () => {
-    function makeModel(id: string) {
-        return {
-            specificationVersion: 'v4' as const,
-            provider: 'gateway',
-            modelId: id,
-            supportedUrls: {},
-            doGenerate: vi.fn(async () => {
-                const override = modelOverrides.get(id);
-                return override ? override() : baseGenerateResult(id);
-            }),
-            doStream: vi.fn(),
-        };
-    }
+function makeEmbeddingModel(provider: string, id: string) {
     return {
-        createOpenAI: vi.fn(() => ({ chat: (id: string) => makeModel(id) })),
+        specificationVersion: 'v4' as const,
+        provider,
+        modelId: id,
+        maxEmbeddingsPerCall: undefined,
+        supportsParallelCalls: true,
+        doEmbed: vi.fn(async ({ values }: { values: string[] }) => ({
+            embeddings: values.map(() => [0.1, 0.2]),
+            usage: { tokens: values.length },
+            warnings: [],
+        })),
     };
-});
+}
+
+vi.mock('@openrouter/ai-sdk-provider', () => ({
+    createOpenRouter: vi.fn(() =>
+        Object.assign((id: string) => makeModel('openrouter', id), {
+            textEmbeddingModel: (id: string) => makeEmbeddingModel('openrouter', id),
+        }),
+    ),
+}));
+
+vi.mock('@ai-sdk/openai', () => ({
+    createOpenAI: vi.fn(() =>
+        Object.assign((id: string) => makeModel('openai', id), {
+            chat: (id: string) => makeModel('gateway', id),
+            imageModel: (id: string) => ({
+                specificationVersion: 'v4' as const,
+                provider: 'openai',
+                modelId: id,
+                maxImagesPerCall: 1,
+                doGenerate: vi.fn(async () => ({
+                    images: ['aGVsbG8='],
+                    response: { headers: {}, modelId: id, timestamp: new Date() },
+                    warnings: [],
+                })),
+            }),
+            transcription: (id: string) => ({
+                specificationVersion: 'v4' as const,
+                provider: 'openai',
+                modelId: id,
+                doGenerate: vi.fn(async () => ({
+                    durationInSeconds: 3,
+                    language: 'en',
+                    response: { modelId: id, timestamp: new Date() },
+                    segments: [],
+                    text: 'hello there',
+                    warnings: [],
+                })),
+            }),
+        }),
+    ),
+}));
+
+vi.mock('@ai-sdk/anthropic', () => ({
+    createAnthropic: vi.fn(() => (id: string) => makeModel('anthropic', id)),
+}));
+
+vi.mock('@ai-sdk/google', () => ({
+    createGoogle: vi.fn(() => (id: string) => makeModel('google', id)),
+}));
+
+vi.mock('@ai-sdk/mistral', () => ({
+    createMistral: vi.fn(() => (id: string) => makeModel('mistral', id)),
+}));
 
 function createMockLogger() {
     return {
@@ -137,6 +188,85 @@ describe('createIntelligence', () => {
             expect(text).toBe('response from model-b');
         });
 
+        test('resolves direct provider references', async () => {
+            const intelligence = createIntelligence({
+                agents: {
+                    extractor: { model: 'claude-sonnet-4', provider: 'anthropic' },
+                    summarizer: { model: 'gemini-2.5-flash', provider: 'google' },
+                    tagger: { model: 'mistral-small', provider: 'mistral' },
+                    writer: { model: 'gpt-4o-mini', provider: 'openai' },
+                },
+                providers: {
+                    anthropic: { apiKey: 'key', type: 'anthropic' },
+                    google: { apiKey: 'key', type: 'google' },
+                    mistral: { apiKey: 'key', type: 'mistral' },
+                    openai: { apiKey: 'key', type: 'openai' },
+                },
+            });
+
+            const providers = ['extractor', 'summarizer', 'tagger', 'writer'].map(
+                (agent) => (intelligence.model(agent) as { provider: string }).provider,
+            );
+
+            expect(providers).toEqual(['anthropic', 'google', 'mistral', 'openai']);
+        });
+
+        test('resolves custom provider types through providerFactories', async () => {
+            modelOverrides.set('flaky-model', async () => {
+                throw new APICallError({
+                    message: 'Service unavailable',
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    url: 'https://openrouter.ai',
+                });
+            });
+            const factory = vi.fn((config: { deployment: string; type: 'azure' }) => ({
+                model: (id: string) => makeModel('azure', `${config.deployment}/${id}`) as never,
+            }));
+
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: { model: 'gpt-4o', provider: 'azure' },
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                    },
+                },
+                providerFactories: { azure: factory },
+                providers: {
+                    azure: { deployment: 'eu-west', type: 'azure' },
+                    openrouter: { apiKey: 'key', type: 'openrouter' },
+                },
+            });
+
+            const { text } = await generateText({
+                model: intelligence.model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            // The custom provider is wrapped like a built-in one: it serves as a fallback
+            expect(text).toBe('response from eu-west/gpt-4o');
+            expect(factory).toHaveBeenCalledWith({ deployment: 'eu-west', type: 'azure' });
+        });
+
+        test('infers custom provider config types from their factory', () => {
+            const providerFactories = {
+                azure: (config: { deployment: string }) => ({
+                    model: (id: string) =>
+                        makeModel('azure', `${config.deployment}/${id}`) as never,
+                }),
+            };
+
+            createIntelligence({
+                agents: {},
+                providerFactories,
+                providers: {
+                    // @ts-expect-error -- `deployment` is required by the azure factory
+                    azure: { type: 'azure' },
+                },
+            });
+        });
+
         test('falls back to the configured fallback model on a retryable error', async () => {
             modelOverrides.set('flaky-model', async () => {
                 throw new APICallError({
@@ -166,6 +296,216 @@ describe('createIntelligence', () => {
             expect(text).toBe('response from backup-model');
         });
 
+        test('records the agent, the model that answered and the fallback on the span', async () => {
+            // Given
+            modelOverrides.set('flaky-model', async () => {
+                throw new APICallError({
+                    message: 'Service unavailable',
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    url: 'https://openrouter.ai',
+                });
+            });
+            const span = { setAttribute: vi.fn() };
+            const getActiveSpan = vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: { model: 'backup-model', provider: 'openrouter' },
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                    },
+                },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            // When
+            await generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' });
+            getActiveSpan.mockRestore();
+
+            // Then
+            const attributes = Object.fromEntries(span.setAttribute.mock.calls);
+            expect(attributes).toEqual(
+                expect.objectContaining({
+                    'ai.fallback.used': true,
+                    'gen_ai.agent.name': 'summarizer',
+                    'gen_ai.request.model': 'openrouter/backup-model',
+                    'gen_ai.system': 'openrouter',
+                    'gen_ai.usage.input_tokens': 10,
+                    'gen_ai.usage.output_tokens': 5,
+                }),
+            );
+        });
+
+        test('walks an ordered fallback chain configured as an array', async () => {
+            modelOverrides.set('flaky-model', async () => {
+                throw new APICallError({
+                    message: 'Service unavailable',
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    url: 'https://openrouter.ai',
+                });
+            });
+            modelOverrides.set('also-flaky-model', async () => {
+                throw new APICallError({
+                    message: 'Too many requests',
+                    requestBodyValues: {},
+                    statusCode: 429,
+                    url: 'https://openrouter.ai',
+                });
+            });
+
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: [
+                            { model: 'also-flaky-model', provider: 'openrouter' },
+                            { model: 'local-model', provider: 'proxy' },
+                        ],
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                    },
+                },
+                providers: {
+                    openrouter: { apiKey: 'key', type: 'openrouter' },
+                    proxy: { baseURL: 'https://proxy.example.com/v1', type: 'gateway' },
+                },
+            });
+
+            const { text } = await generateText({
+                model: intelligence.model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            expect(text).toBe('response from local-model');
+        });
+
+        test('retries the same model per the agent retry policy before falling back', async () => {
+            let calls = 0;
+            modelOverrides.set('flaky-model', async () => {
+                calls++;
+                if (calls === 1) {
+                    throw new APICallError({
+                        message: 'Service unavailable',
+                        requestBodyValues: {},
+                        statusCode: 503,
+                        url: 'https://openrouter.ai',
+                    });
+                }
+                return baseGenerateResult('flaky-model');
+            });
+
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: { model: 'backup-model', provider: 'openrouter' },
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                        retry: { baseDelayMs: 0, maxAttempts: 2 },
+                    },
+                },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            const { text } = await generateText({
+                model: intelligence.model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            expect(text).toBe('response from flaky-model');
+            expect(calls).toBe(2);
+        });
+
+        test('skips a primary whose circuit is open', async () => {
+            let primaryCalls = 0;
+            modelOverrides.set('flaky-model', async () => {
+                primaryCalls++;
+                throw new APICallError({
+                    message: 'Service unavailable',
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    url: 'https://openrouter.ai',
+                });
+            });
+
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: { model: 'backup-model', provider: 'openrouter' },
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                    },
+                },
+                circuitBreaker: { failureThreshold: 1 },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            const model = intelligence.model('summarizer');
+            await generateText({ maxRetries: 0, model, prompt: 'Hello!' });
+            const { text } = await generateText({ maxRetries: 0, model, prompt: 'Hello!' });
+
+            expect(text).toBe('response from backup-model');
+            expect(primaryCalls).toBe(1);
+        });
+
+        test('falls back within the deadline when the primary hangs', async () => {
+            // Given -- a primary that never answers
+            modelOverrides.set('hung-model', () => new Promise(() => {}));
+
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        deadlineMs: 1000,
+                        fallback: { model: 'backup-model', provider: 'openrouter' },
+                        model: 'hung-model',
+                        provider: 'openrouter',
+                        timeoutMs: 50,
+                    },
+                },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            // When
+            const { text } = await generateText({
+                maxRetries: 0,
+                model: intelligence.model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            // Then -- the primary attempt timed out, leaving the fallback time to answer
+            expect(text).toBe('response from backup-model');
+        });
+
+        test('serves repeated agent calls from the configured cache', async () => {
+            let calls = 0;
+            modelOverrides.set('model-a', async () => {
+                calls++;
+                return baseGenerateResult('model-a');
+            });
+
+            const logger = createMockLogger();
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        cache: { store: createMemoryCacheStore(), ttlMs: 60_000 },
+                        model: 'model-a',
+                        provider: 'openrouter',
+                    },
+                },
+                logger,
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            const model = intelligence.model('summarizer');
+            await generateText({ model, prompt: 'Hello!' });
+            const { text } = await generateText({ model, prompt: 'Hello!' });
+
+            // Then -- the hit is still logged, but never reaches the provider
+            expect(text).toBe('response from model-a');
+            expect(calls).toBe(1);
+            expect(logger.debug).toHaveBeenCalledTimes(4);
+        });
+
         test('applies the logging middleware when a logger is provided', async () => {
             const logger = createMockLogger();
             const intelligence = createIntelligence({
@@ -179,6 +519,39 @@ describe('createIntelligence', () => {
             expect(logger.debug).toHaveBeenCalledWith('ai.generate.start', expect.any(Object));
         });
 
+        test('applies per-agent logging options over the instance logger', async () => {
+            // Given -- one agent logging its content to its own logger, one not logged at all
+            const logger = createMockLogger();
+            const agentLogger = createMockLogger();
+            const intelligence = createIntelligence({
+                agents: {
+                    classifier: {
+                        logging: false,
+                        model: 'model-b',
+                        provider: 'openrouter',
+                    },
+                    summarizer: {
+                        logging: { include: { content: true }, logger: agentLogger },
+                        model: 'model-a',
+                        provider: 'openrouter',
+                    },
+                },
+                logger,
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            // When
+            await generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' });
+            await generateText({ model: intelligence.model('classifier'), prompt: 'Hello!' });
+
+            // Then
+            expect(agentLogger.debug).toHaveBeenCalledWith(
+                'ai.generate.complete',
+                expect.objectContaining({ content: 'response from model-a' }),
+            );
+            expect(logger.debug).not.toHaveBeenCalled();
+        });
+
         test('does not apply logging middleware when no logger is provided', async () => {
             const intelligence = createIntelligence({
                 agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
@@ -191,4 +564,492 @@ describe('createIntelligence', () => {
             ).resolves.toEqual(expect.objectContaining({ text: 'response from model-a' }));
         });
     });
+
+    describe('budgets', () => {
+        test('rejects agent calls once the global budget is spent', async () => {
+            const intelligence = createIntelligence({
+                agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
+                budget: { maxUsd: 0.00001, window: 'process' },
+                pricing: { 'openrouter/model-a': { input: 1, output: 1 } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+            const model = intelligence.model('summarizer');
+
+            // 15 tokens at $1/M: $0.000015, past the $0.00001 limit
+            await generateText({ model, prompt: 'Hello!' });
+
+            await expect(generateText({ model, prompt: 'Hello!' })).rejects.toThrow(
+                'Budget "global" exceeded',
+            );
+        });
+
+        test('routes to the fallback once the agent budget is spent', async () => {
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        budget: { maxUsd: 0.00001, window: 'process' },
+                        fallback: { model: 'cheap-model', provider: 'openrouter' },
+                        model: 'model-a',
+                        onBudgetExceeded: 'fallback',
+                        provider: 'openrouter',
+                    },
+                },
+                pricing: { 'openrouter/model-a': { input: 1, output: 1 } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+            const model = intelligence.model('summarizer');
+
+            const first = await generateText({ model, prompt: 'Hello!' });
+            const second = await generateText({ model, prompt: 'Hello!' });
+
+            expect(first.text).toBe('response from model-a');
+            expect(second.text).toBe('response from cheap-model');
+        });
+
+        test('rejects onBudgetExceeded: fallback without a fallback', () => {
+            expect(() =>
+                createIntelligence({
+                    agents: {
+                        summarizer: {
+                            budget: { maxUsd: 10, window: 'day' },
+                            model: 'model-a',
+                            onBudgetExceeded: 'fallback',
+                            provider: 'openrouter',
+                        },
+                    },
+                    providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+                }),
+            ).toThrow(`Agent "summarizer" sets onBudgetExceeded: 'fallback' but has no fallback`);
+        });
+
+        test('keeps agent budgets apart', async () => {
+            const intelligence = createIntelligence({
+                agents: {
+                    other: { model: 'model-b', provider: 'openrouter' },
+                    summarizer: {
+                        budget: { maxUsd: 0.00001, window: 'process' },
+                        model: 'model-a',
+                        provider: 'openrouter',
+                    },
+                },
+                pricing: { 'openrouter/model-a': { input: 1, output: 1 } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            await generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' });
+
+            await expect(
+                generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' }),
+            ).rejects.toThrow('Budget "agent:summarizer" exceeded');
+            await expect(
+                generateText({ model: intelligence.model('other'), prompt: 'Hello!' }),
+            ).resolves.toEqual(expect.objectContaining({ text: 'response from model-b' }));
+        });
+    });
+
+    describe('pricing', () => {
+        test('prices models without a pricing entry from the bundled catalogue', async () => {
+            // Given -- a dated Anthropic id, listed as `anthropic/claude-3.5-haiku` ($0.8/$4 per M)
+            const logger = createMockLogger();
+            const onUsage = vi.fn();
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: { model: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+                },
+                logger,
+                onUsage,
+                providers: { anthropic: { apiKey: 'key', type: 'anthropic' } },
+            });
+
+            // When
+            await generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' });
+
+            // Then -- 10 input and 5 output tokens, and no missing-pricing warning
+            expect(onUsage).toHaveBeenCalledWith(
+                expect.objectContaining({ costUsd: expect.closeTo(0.000028) }),
+            );
+            expect(logger.warn).not.toHaveBeenCalled();
+        });
+
+        test('warns about agent models with no pricing and no reported cost', () => {
+            // Given -- an unpriced Anthropic primary, an OpenRouter and a gateway fallback
+            const logger = createMockLogger();
+
+            // When
+            createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: [
+                            { model: 'model-b', provider: 'openrouter' },
+                            { model: 'model-c', provider: 'litellm' },
+                        ],
+                        model: 'claude',
+                        provider: 'anthropic',
+                    },
+                },
+                logger,
+                providers: {
+                    anthropic: { apiKey: 'key', type: 'anthropic' },
+                    litellm: {
+                        apiKey: 'key',
+                        baseURL: 'https://gateway.example.com/v1',
+                        type: 'gateway',
+                    },
+                    openrouter: { apiKey: 'key', type: 'openrouter' },
+                },
+            });
+
+            // Then -- only the model with no cost path is flagged
+            expect(logger.warn).toHaveBeenCalledTimes(1);
+            expect(logger.warn).toHaveBeenCalledWith('ai.pricing.missing', {
+                agent: 'summarizer',
+                modelRef: 'anthropic/claude',
+            });
+        });
+
+        test('reads the cost of a provider with its own cost extractors', async () => {
+            // Given -- a gateway reporting its cost in custom metadata, with no pricing
+            modelOverrides.set('proxied-model', async () => ({
+                ...baseGenerateResult('proxied-model'),
+                providerMetadata: { proxy: { cost: 0.002 } },
+            }));
+            const logger = createMockLogger();
+            const onUsage = vi.fn();
+            const intelligence = createIntelligence({
+                agents: { summarizer: { model: 'proxied-model', provider: 'proxy' } },
+                logger,
+                onUsage,
+                providers: {
+                    proxy: {
+                        baseURL: 'https://proxy.example.com/v1',
+                        costExtractors: [createMetadataCostExtractor(['proxy', 'cost'])],
+                        type: 'gateway',
+                    },
+                },
+            });
+
+            // When
+            await generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' });
+
+            // Then
+            expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ costUsd: 0.002 }));
+            expect(logger.warn).not.toHaveBeenCalled();
+        });
+
+        test('does not warn about priced or local models', () => {
+            const logger = createMockLogger();
+
+            createIntelligence({
+                agents: {
+                    local: { model: 'llama3.1:8b', provider: 'local' },
+                    summarizer: { model: 'claude', provider: 'anthropic' },
+                },
+                logger,
+                pricing: { 'anthropic/claude': { input: 3, output: 15 } },
+                providers: {
+                    anthropic: { apiKey: 'key', type: 'anthropic' },
+                    local: { type: 'ollama' },
+                },
+            });
+
+            expect(logger.warn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('usage', () => {
+        test('aggregates calls, errors, tokens and cost per agent and model', async () => {
+            modelOverrides.set('flaky-model', async () => {
+                throw new APICallError({
+                    message: 'Service unavailable',
+                    requestBodyValues: {},
+                    statusCode: 503,
+                    url: 'https://openrouter.ai',
+                });
+            });
+            const onUsage = vi.fn();
+            const intelligence = createIntelligence({
+                agents: {
+                    summarizer: {
+                        fallback: { model: 'backup-model', provider: 'openrouter' },
+                        model: 'flaky-model',
+                        provider: 'openrouter',
+                    },
+                },
+                onUsage,
+                pricing: { 'openrouter/backup-model': { input: 1000, output: 1000 } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            await generateText({
+                maxRetries: 0,
+                model: intelligence.model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            const usage = intelligence.usage();
+            expect(usage.byAgent.summarizer).toEqual({
+                calls: 2,
+                costUsd: 0.015,
+                errors: 1,
+                inputTokens: 10,
+                outputTokens: 5,
+            });
+            expect(usage.byModel['openrouter/flaky-model'].errors).toBe(1);
+            expect(usage.byModel['openrouter/backup-model'].costUsd).toBe(0.015);
+            expect(onUsage).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    agent: 'summarizer',
+                    costUsd: 0.015,
+                    modelRef: 'openrouter/backup-model',
+                    timestamp: expect.any(Date),
+                }),
+            );
+        });
+
+        test('totals only the calls of the active scope when scoped', async () => {
+            const intelligence = createIntelligence({
+                agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+            const model = intelligence.model('summarizer');
+            await generateText({ model, prompt: 'Hello!' });
+
+            const scoped = await withUsageScope(async () => {
+                await generateText({ model, prompt: 'Hello!' });
+                return intelligence.usage({ scoped: true });
+            });
+
+            expect(scoped.total.calls).toBe(1);
+            expect(intelligence.usage().total.calls).toBe(2);
+            expect(intelligence.usage({ scoped: true }).total.calls).toBe(0);
+        });
+        test('keeps the scoped usage of instances sharing a scope apart', async () => {
+            // Given -- two instances called within the same scope
+            const config = {
+                agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' as const } },
+            };
+            const first = createIntelligence(config);
+            const second = createIntelligence(config);
+
+            // When
+            const [firstUsage, secondUsage] = await withUsageScope(async () => {
+                await generateText({ model: first.model('summarizer'), prompt: 'Hello!' });
+                await generateText({ model: first.model('summarizer'), prompt: 'Hello!' });
+                await generateText({ model: second.model('summarizer'), prompt: 'Hello!' });
+                return [first.usage({ scoped: true }), second.usage({ scoped: true })];
+            });
+
+            // Then
+            expect(firstUsage.total.calls).toBe(2);
+            expect(secondUsage.total.calls).toBe(1);
+        });
+    });
+
+    describe('telemetry', () => {
+        test('warns when span redaction comes after telemetry was registered without it', () => {
+            // Given -- an instance registering telemetry without span redaction
+            const config = {
+                agents: {},
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' as const } },
+            };
+            createIntelligence(config);
+            const logger = createMockLogger();
+
+            // When
+            createIntelligence({ ...config, logger, redaction: { spans: true } });
+
+            // Then
+            expect(logger.warn).toHaveBeenCalledWith('ai.telemetry.span_redaction_ignored', {
+                reason: 'telemetry was registered by an earlier instance',
+                spansRedacted: false,
+            });
+        });
+
+        test('accepts span redaction equal to the registered one', async () => {
+            // Given -- a fresh module, whose first instance registers span redaction
+            vi.resetModules();
+            const { createIntelligence: createFreshIntelligence } =
+                await import('./create-intelligence.js');
+            const config = {
+                agents: {},
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' as const } },
+            };
+            createFreshIntelligence({
+                ...config,
+                redaction: { detectors: ['email', 'phone'], redactors: [/secret/g], spans: true },
+            });
+            const logger = createMockLogger();
+
+            // When -- a later instance passes equal options, as a distinct object
+            createFreshIntelligence({
+                ...config,
+                logger,
+                redaction: { detectors: ['phone', 'email'], redactors: [/secret/g], spans: true },
+            });
+
+            // Then
+            expect(logger.warn).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('embedding models', () => {
+        test('resolves embedders into embedding models usable with embed', async () => {
+            const logger = createMockLogger();
+            const intelligence = createIntelligence({
+                agents: {},
+                embedders: {
+                    search: { model: 'openai/text-embedding-3-small', provider: 'openrouter' },
+                },
+                logger,
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            const { embedding } = await embed({
+                model: intelligence.embeddingModel('search'),
+                value: 'Hello!',
+            });
+
+            expect(embedding).toEqual([0.1, 0.2]);
+            expect(intelligence.embeddingModel('search')).toBe(
+                intelligence.embeddingModel('search'),
+            );
+            expect(logger.debug).toHaveBeenCalledWith(
+                'ai.embed.complete',
+                expect.objectContaining({ model: 'openai/text-embedding-3-small', values: 1 }),
+            );
+        });
+
+        test('throws a clear error listing available embedders when the embedder is unknown', () => {
+            const intelligence = createIntelligence({
+                agents: {},
+                embedders: { search: { model: 'embedder', provider: 'openrouter' } },
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            expect(() => intelligence.embeddingModel('typo')).toThrow(
+                /Unknown embedder "typo".*search/,
+            );
+        });
+
+        test('throws when the provider has no embedding models', () => {
+            const intelligence = createIntelligence({
+                agents: {},
+                embedders: { search: { model: 'claude-sonnet-4', provider: 'anthropic' } },
+                providers: { anthropic: { apiKey: 'key', type: 'anthropic' } },
+            });
+
+            expect(() => intelligence.embeddingModel('search')).toThrow(
+                'Provider "anthropic" does not support embedding models.',
+            );
+        });
+    });
+
+    describe('image and transcription models', () => {
+        test('resolves image models usable with generateImage', async () => {
+            const intelligence = createIntelligence({
+                agents: {},
+                imageModels: { illustrator: { model: 'gpt-image-1', provider: 'openai' } },
+                pricing: { 'openai/gpt-image-1': { perImage: 0.04 } },
+                providers: { openai: { apiKey: 'key', type: 'openai' } },
+            });
+
+            const { images } = await generateImage({
+                model: intelligence.imageModel('illustrator'),
+                prompt: 'A lighthouse at dawn',
+            });
+
+            expect(images).toHaveLength(1);
+            expect(intelligence.imageModel('illustrator')).toBe(
+                intelligence.imageModel('illustrator'),
+            );
+        });
+
+        test('resolves transcription models usable with transcribe', async () => {
+            const intelligence = createIntelligence({
+                agents: {},
+                providers: { openai: { apiKey: 'key', type: 'openai' } },
+                transcriptionModels: { scribe: { model: 'whisper-1', provider: 'openai' } },
+            });
+
+            const { text } = await transcribe({
+                audio: new Uint8Array([1, 2, 3]),
+                model: intelligence.transcriptionModel('scribe'),
+            });
+
+            expect(text).toBe('hello there');
+        });
+
+        test('throws when the provider has no image models', () => {
+            const intelligence = createIntelligence({
+                agents: {},
+                imageModels: { illustrator: { model: 'some-model', provider: 'mistral' } },
+                providers: { mistral: { apiKey: 'key', type: 'mistral' } },
+            });
+
+            expect(() => intelligence.imageModel('illustrator')).toThrow(
+                'Provider "mistral" does not support image models.',
+            );
+        });
+    });
+
+    describe('cassette modes', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(join(tmpdir(), 'intelligence-cassettes-'));
+        });
+
+        afterEach(async () => {
+            await rm(directory, { force: true, recursive: true });
+        });
+
+        test('replays recorded agent calls without reaching the provider', async () => {
+            const config = {
+                agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
+                cassetteDirectory: directory,
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' as const } },
+            };
+            await generateText({
+                model: createIntelligence({ ...config, mode: 'record' }).model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            let calls = 0;
+            modelOverrides.set('model-a', async () => {
+                calls++;
+                return baseGenerateResult('model-a');
+            });
+            const { text } = await generateText({
+                model: createIntelligence({ ...config, mode: 'replay' }).model('summarizer'),
+                prompt: 'Hello!',
+            });
+
+            expect(text).toBe('response from model-a');
+            expect(calls).toBe(0);
+        });
+
+        test('fails replaying a call that was never recorded', async () => {
+            const intelligence = createIntelligence({
+                agents: { summarizer: { model: 'model-a', provider: 'openrouter' } },
+                cassetteDirectory: directory,
+                mode: 'replay',
+                providers: { openrouter: { apiKey: 'key', type: 'openrouter' } },
+            });
+
+            await expect(
+                generateText({ model: intelligence.model('summarizer'), prompt: 'Hello!' }),
+            ).rejects.toThrow('No cassette for this call to "openrouter/model-a"');
+        });
+
+        test('requires a cassette directory outside passthrough mode', () => {
+            expect(() =>
+                createIntelligence({
+                    agents: {},
+                    mode: 'record',
+                    providers: {},
+                }),
+            ).toThrow('Intelligence mode "record" requires a cassetteDirectory');
+        });
+    });
 });
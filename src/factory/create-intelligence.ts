@@ -1,40 +1,176 @@
 import { OpenTelemetry } from '@ai-sdk/otel';
-import type { LanguageModelV4 } from '@ai-sdk/provider';
+import type { EmbeddingModelV4, ImageModelV4, LanguageModelV4 } from '@ai-sdk/provider';
 import type { LoggerPort } from '@jterrazz/telemetry';
-import { type LanguageModel, registerTelemetry, wrapLanguageModel } from 'ai';
+import { trace } from '@opentelemetry/api';
+import {
+    type EmbeddingModel,
+    type ImageModel,
+    type LanguageModel,
+    registerTelemetry,
+    type TranscriptionModel,
+    wrapEmbeddingModel,
+    wrapImageModel,
+    wrapLanguageModel,
+} from 'ai';
 
-import { createCostMiddleware } from '../middleware/cost.middleware.js';
-import { createLoggingMiddleware } from '../middleware/logging.middleware.js';
-import { createFallbackModel } from '../model/fallback-model.js';
+import type { BudgetStore } from '../budget/budget-store.js';
+import {
+    type CacheMiddlewareOptions,
+    createCacheMiddleware,
+} from '../middleware/cache.middleware.js';
+import {
+    type CallUsage,
+    type CostExtractor,
+    createCostMiddleware,
+    createEmbeddingCostMiddleware,
+    createImageCostMiddleware,
+    createTranscriptionCostModel,
+    type CostPricing,
+} from '../middleware/cost.middleware.js';
+import {
+    createEmbeddingLoggingMiddleware,
+    createLoggingMiddleware,
+    type LoggingMiddlewareOptions,
+} from '../middleware/logging.middleware.js';
+import { createTelemetryMiddleware } from '../middleware/telemetry.middleware.js';
+import {
+    type CircuitBreakerOptions,
+    createCircuitBreaker,
+    createCircuitBreakerModel,
+} from '../model/circuit-breaker.js';
+import {
+    type Budget,
+    type BudgetLimit,
+    createBudgetModel,
+    createBudgetTracker,
+} from '../model/budget-model.js';
+import {
+    type CassetteMode,
+    createRecordingModel,
+    createReplayModel,
+} from '../model/cassette-model.js';
+import { createFallbackModel, type MidStreamFallbackOptions } from '../model/fallback-model.js';
+import { createRetryModel, type RetryPolicy } from '../model/retry-model.js';
+import { createTimeoutModel } from '../model/timeout-model.js';
+import { type AnthropicConfig, createAnthropicProvider } from '../provider/anthropic.provider.js';
 import { createGatewayProvider, type GatewayConfig } from '../provider/gateway.provider.js';
+import { createGoogleProvider, type GoogleConfig } from '../provider/google.provider.js';
+import { createMistralProvider, type MistralConfig } from '../provider/mistral.provider.js';
+import { createOllamaProvider, type OllamaConfig } from '../provider/ollama.provider.js';
+import { createOpenAIProvider, type OpenAIConfig } from '../provider/openai.provider.js';
 import {
     createOpenRouterProvider,
     type OpenRouterConfig,
 } from '../provider/openrouter.provider.js';
+import { findCataloguePricing } from '../pricing/pricing-catalogue.js';
+import {
+    createRedactingTracer,
+    createRedactor,
+    type RedactionOptions,
+} from '../redaction/redaction.js';
+import { createUsageLedger, type UsageRecord, type UsageSummary } from '../usage/usage-ledger.js';
+import { activeUsageLedger } from '../usage/usage-scope.js';
 
-type ProviderConfig =
-    | (GatewayConfig & { type: 'gateway' })
-    | (OpenRouterConfig & { type: 'openrouter' });
+/** Options of every `providers` entry, whatever its type */
+interface ProviderEntryOptions {
+    /**
+     * Read the cost this provider reports, e.g. a proxy's cost header
+     * (default: `[openRouterCostExtractor, liteLlmCostExtractor]`)
+     */
+    costExtractors?: CostExtractor[];
+}
+
+type ProviderConfig = ProviderEntryOptions &
+    (
+        | (AnthropicConfig & { type: 'anthropic' })
+        | (GatewayConfig & { type: 'gateway' })
+        | (GoogleConfig & { type: 'google' })
+        | (MistralConfig & { type: 'mistral' })
+        | (OllamaConfig & { type: 'ollama' })
+        | (OpenAIConfig & { type: 'openai' })
+        | (OpenRouterConfig & { type: 'openrouter' })
+    );
 
 interface ResolvedProvider {
     model: (id: string) => LanguageModel;
+    /** Absent for providers without embedding models (e.g. Anthropic) */
+    embeddingModel?: (id: string) => EmbeddingModel;
+    imageModel?: (id: string) => ImageModel;
+    transcriptionModel?: (id: string) => TranscriptionModel;
 }
 
+/**
+ * Builds a provider from its config entry — the extension point for provider
+ * types this package doesn't ship (Azure, Bedrock, an internal proxy, ...).
+ * The entry is passed as-is, `type` included.
+ */
+type ProviderFactory<TConfig = never> = (config: TConfig) => ResolvedProvider;
+
+type ProviderFactories = Record<string, ProviderFactory>;
+
+/** Config entries accepted for the custom types, typed after each factory's parameter */
+type CustomProviderConfig<TFactories extends ProviderFactories> = {
+    [TType in keyof TFactories & string]: Omit<Parameters<TFactories[TType]>[0], 'type'> &
+        ProviderEntryOptions & {
+            type: TType;
+        };
+}[keyof TFactories & string];
+
 let telemetryRegistered = false;
+/** `spanRedactionKey` of the options the telemetry was registered with, if any */
+let registeredSpanRedaction: string | undefined;
+
+/**
+ * Stable serialization of span redaction options, so equal options passed as
+ * distinct objects compare equal. Detectors and paths are sets, order-free;
+ * redactors apply in order and compare by source (regex source and flags,
+ * function text).
+ */
+function spanRedactionKey(redaction: RedactionOptions): string {
+    return JSON.stringify({
+        detectors: redaction.detectors && [...new Set(redaction.detectors)].sort(),
+        paths: redaction.paths && [...new Set(redaction.paths)].sort(),
+        redactors: redaction.redactors?.map(String),
+    });
+}
 
 /**
  * Registers the AI SDK OpenTelemetry integration, once per process. Best
  * effort — if the host app has no OTel SDK configured, `@ai-sdk/otel` spans
  * are simply dropped rather than throwing.
+ *
+ * The registration is global, so span `redaction` asked for by a later
+ * instance can't apply: it is logged as `ai.telemetry.span_redaction_ignored`
+ * unless the first instance registered equal options.
  */
-function ensureTelemetryRegistered(): void {
+function ensureTelemetryRegistered(
+    redaction: RedactionOptions | undefined,
+    logger: LoggerPort | undefined,
+): void {
+    const redactionKey = redaction && spanRedactionKey(redaction);
     if (telemetryRegistered) {
+        if (redactionKey !== undefined && redactionKey !== registeredSpanRedaction) {
+            logger?.warn('ai.telemetry.span_redaction_ignored', {
+                reason: 'telemetry was registered by an earlier instance',
+                spansRedacted: registeredSpanRedaction !== undefined,
+            });
+        }
         return;
     }
     telemetryRegistered = true;
+    registeredSpanRedaction = redactionKey;
 
     try {
-        registerTelemetry(new OpenTelemetry());
+        registerTelemetry(
+            new OpenTelemetry(
+                redaction && {
+                    tracer: createRedactingTracer(
+                        trace.getTracer('gen_ai'),
+                        createRedactor(redaction),
+                    ),
+                },
+            ),
+        );
     } catch {
         // Best-effort: telemetry registration must never break the app.
     }
@@ -42,19 +178,40 @@ function ensureTelemetryRegistered(): void {
 
 function createProvider(config: ProviderConfig): ResolvedProvider {
     switch (config.type) {
+        case 'anthropic': {
+            return createAnthropicProvider(config);
+        }
         case 'gateway': {
             return createGatewayProvider(config);
         }
+        case 'google': {
+            return createGoogleProvider(config);
+        }
+        case 'mistral': {
+            return createMistralProvider(config);
+        }
+        case 'ollama': {
+            return createOllamaProvider(config);
+        }
+        case 'openai': {
+            return createOpenAIProvider(config);
+        }
         case 'openrouter': {
             return createOpenRouterProvider(config);
         }
     }
 }
 
-function assertProviderExists(
-    providerKey: string,
-    providers: Record<string, ProviderConfig>,
-): void {
+function findEntry<T>(kind: string, entries: Record<string, T>, name: string): T {
+    const entry = entries[name];
+    if (!entry) {
+        const available = Object.keys(entries).join(', ') || '(none configured)';
+        throw new Error(`Unknown ${kind} "${name}". Available ${kind}s: ${available}.`);
+    }
+    return entry;
+}
+
+function assertProviderExists(providerKey: string, providers: Record<string, unknown>): void {
     if (providers[providerKey]) {
         return;
     }
@@ -62,41 +219,169 @@ function assertProviderExists(
     throw new Error(`Unknown provider "${providerKey}". Available providers: ${available}.`);
 }
 
-export type { ProviderConfig };
+/**
+ * Provider types whose calls have a cost without a `pricing` entry:
+ * OpenRouter and LiteLLM gateways report the actual cost of each call
+ * (read by the default cost extractors), local models are free.
+ */
+const SELF_PRICED_PROVIDER_TYPES = new Set(['gateway', 'ollama', 'openrouter']);
+
+export type { ProviderConfig, ProviderFactory };
 
 export interface ModelRef {
     /** Key into `providers` */
     provider: string;
     /** Technical model id passed through to the provider as-is */
     model: string;
+    /**
+     * Time a single attempt on this model may take before it is aborted and
+     * treated as a retryable failure
+     */
+    timeoutMs?: number;
 }
 
+/** An embedding model, by `provider` key and model id — no fallback or retry */
+export type EmbedderConfig = Pick<ModelRef, 'model' | 'provider'>;
+
+/** An image generation model, by `provider` key and model id */
+export type ImageModelConfig = Pick<ModelRef, 'model' | 'provider'>;
+
+/** A speech-to-text model, by `provider` key and model id */
+export type TranscriptionModelConfig = Pick<ModelRef, 'model' | 'provider'>;
+
 export interface AgentConfig extends ModelRef {
-    /** Model used when the primary `provider`/`model` fails with a retryable error */
-    fallback?: ModelRef;
+    /**
+     * Model, or ordered chain of models, tried in turn when the primary
+     * `provider`/`model` fails with a retryable error
+     */
+    fallback?: ModelRef | ModelRef[];
+    /** Fall back when a stream fails after opening but before its commit point (opt-in) */
+    midStreamFallback?: boolean | MidStreamFallbackOptions;
+    /**
+     * Total deadline of a call to the agent, retries and fallbacks included:
+     * each attempt gets at most the remaining budget, not a fresh one. Set
+     * it above the primary's `timeoutMs`, so a hung primary still leaves the
+     * fallbacks time to answer.
+     */
+    deadlineMs?: number;
+    /**
+     * Same-model retry with exponential backoff, applied to every model of
+     * the agent before moving on to the next one in the fallback chain
+     */
+    retry?: RetryPolicy;
+    /**
+     * Serve repeated calls from a response cache, keyed by the call options
+     * and the primary `"<provider>/<model>"`. Hits skip the whole chain, so
+     * they are neither retried nor costed again.
+     */
+    cache?: Pick<CacheMiddlewareOptions, 'store' | 'ttlMs'>;
+    /** Spend limits of this agent, charged with the cost of every model of its chain */
+    budget?: BudgetLimit | BudgetLimit[];
+    /**
+     * Once the agent budget is spent: `'reject'` calls with a
+     * `BudgetExceededError`, or `'fallback'` to skip the primary model and
+     * route calls to the (cheaper) fallback chain (default: `'reject'`).
+     * `'fallback'` requires a `fallback`.
+     */
+    onBudgetExceeded?: 'fallback' | 'reject';
+    /**
+     * Logging of this agent's calls, over the instance `logger` and
+     * `redaction` — e.g. to log its content, to a logger of its own — or
+     * `false` to not log them at all
+     */
+    logging?: false | Partial<LoggingMiddlewareOptions>;
 }
 
-export interface IntelligenceConfig {
-    providers: Record<string, ProviderConfig>;
+export interface IntelligenceConfig<TFactories extends ProviderFactories = Record<never, never>> {
+    providers: Record<string, CustomProviderConfig<TFactories> | ProviderConfig>;
+    /**
+     * Factories for custom provider types, keyed by the `type` that `providers`
+     * entries reference. A custom type shadows a built-in type of the same name.
+     */
+    providerFactories?: TFactories;
     agents: Record<string, AgentConfig>;
+    /** Embedding models, resolved by name through `intelligence.embeddingModel(name)` */
+    embedders?: Record<string, EmbedderConfig>;
+    /** Image models, resolved by name through `intelligence.imageModel(name)` */
+    imageModels?: Record<string, ImageModelConfig>;
+    /** Transcription models, resolved by name through `intelligence.transcriptionModel(name)` */
+    transcriptionModels?: Record<string, TranscriptionModelConfig>;
+    /**
+     * Pricing keyed by `"<provider>/<model>"` (the configured `provider` and
+     * `model` joined with `/`, not a provider-side identifier): USD per
+     * million tokens (with optional `cacheRead`, `cacheWrite` and
+     * `reasoning` rates, long-context `tiers` and a `perRequest` fee), per
+     * generated image (`perImage`) or per second of transcribed audio
+     * (`perSecond`). Embedding models only need `input`.
+     *
+     * Models without an entry are priced from the bundled catalogue (a
+     * snapshot of common Anthropic, Google, Mistral and OpenAI models, see
+     * `findCataloguePricing`). Agent models found in neither are logged as
+     * `ai.pricing.missing` at creation, unless their provider reports costs
+     * (OpenRouter, a gateway, or an entry with `costExtractors`) or is local
+     * (Ollama).
+     */
+    pricing?: Record<string, CostPricing>;
+    /**
+     * Circuit breaker shared by every agent, with one circuit per
+     * `"<provider>/<model>"`. Guards each model of a fallback chain except the
+     * last, so an open circuit sends calls straight to the next model.
+     */
+    circuitBreaker?: CircuitBreakerOptions;
     /**
-     * USD-per-million-token pricing, keyed by `"<provider>/<model>"` (the
-     * agent's `provider` and `model` joined with `/`, not a provider-side
-     * identifier).
+     * Spend limits across everything this instance calls. Embedding, image
+     * and transcription costs count towards them, but only agent calls are
+     * rejected once they are spent.
      */
-    pricing?: Record<string, { input: number; output: number }>;
+    budget?: BudgetLimit | BudgetLimit[];
+    /** Spend counters of `budget` and agent budgets (default: in-process) */
+    budgetStore?: BudgetStore;
+    /**
+     * Called after every model call, failed ones included, e.g. to ship
+     * usage records to a billing table. Errors it throws are ignored.
+     */
+    onUsage?: (record: UsageRecord) => void;
+    /**
+     * `'record'` writes every agent call to a cassette in `cassetteDirectory`;
+     * `'replay'` answers agent calls from those cassettes only, without
+     * reaching any provider (default: `'passthrough'`)
+     */
+    mode?: CassetteMode;
+    /** Directory of the agent cassettes, required in `'record'` and `'replay'` modes */
+    cassetteDirectory?: string;
     logger?: LoggerPort;
+    /**
+     * Masks emails, phone numbers, API keys and card numbers (plus custom
+     * patterns and paths) in the `logger` entries of agent calls. With
+     * `spans`, also in the attributes of the AI SDK spans, prompts included —
+     * telemetry being registered once per process, only the first instance
+     * created decides that: a later instance asking for other span redaction
+     * logs `ai.telemetry.span_redaction_ignored`.
+     */
+    redaction?: RedactionOptions & { spans?: boolean };
 }
 
 export interface Intelligence {
     /** Get the composed language model for the given agent name */
     model: (agentName: string) => LanguageModel;
+    /** Get the instrumented embedding model for the given embedder name */
+    embeddingModel: (embedderName: string) => EmbeddingModel;
+    /** Get the cost-tracked image model configured under `name` */
+    imageModel: (name: string) => ImageModel;
+    /** Get the cost-tracked transcription model configured under `name` */
+    transcriptionModel: (name: string) => TranscriptionModel;
+    /**
+     * Tokens, calls, errors and USD cost since this instance was created —
+     * or, with `scoped`, those of its calls made within the active
+     * `withUsageScope` scope
+     */
+    usage: (options?: { scoped?: boolean }) => UsageSummary;
 }
 
 /**
  * Creates a composition root over AI SDK v7: resolves each agent's
  * `provider`/`model` pair into a fully instrumented `LanguageModel` — cost
- * tracking, optional fallback, and optional logging — cached per agent name.
+ * tracking, an optional fallback chain, and optional logging — cached per agent name.
  *
  * Registers the `@ai-sdk/otel` telemetry integration on first use (idempotent,
  * best-effort). The host app is expected to have already registered an
@@ -107,12 +392,16 @@ export interface Intelligence {
  * const intelligence = createIntelligence({
  *   providers: {
  *     openrouter: { type: 'openrouter', apiKey: process.env.OPENROUTER_API_KEY },
+ *     local: { type: 'gateway', baseURL: 'http://localhost:8080/v1' },
  *   },
  *   agents: {
  *     summarizer: {
  *       provider: 'openrouter',
  *       model: 'google/gemini-2.5-flash-lite',
- *       fallback: { provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+ *       fallback: [
+ *         { provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+ *         { provider: 'local', model: 'llama-3.1-8b' },
+ *       ],
  *     },
  *   },
  *   pricing: {
@@ -125,65 +414,325 @@ export interface Intelligence {
  * const { text } = await generateText({ model, prompt: 'Hello!' });
  * ```
  */
-export function createIntelligence(config: IntelligenceConfig): Intelligence {
-    ensureTelemetryRegistered();
+export function createIntelligence<TFactories extends ProviderFactories = Record<never, never>>(
+    config: IntelligenceConfig<TFactories>,
+): Intelligence {
+    ensureTelemetryRegistered(
+        config.redaction?.spans ? config.redaction : undefined,
+        config.logger,
+    );
 
-    const { agents, logger, pricing, providers } = config;
+    const {
+        agents,
+        budget,
+        budgetStore,
+        cassetteDirectory,
+        circuitBreaker,
+        embedders = {},
+        imageModels = {},
+        logger,
+        mode = 'passthrough',
+        onUsage,
+        pricing,
+        providerFactories,
+        providers,
+        redaction,
+        transcriptionModels = {},
+    } = config;
+
+    if (mode !== 'passthrough' && cassetteDirectory === undefined) {
+        throw new Error(`Intelligence mode "${mode}" requires a cassetteDirectory`);
+    }
+
+    for (const [agentName, agentConfig] of Object.entries(agents)) {
+        if (agentConfig.onBudgetExceeded === 'fallback' && !agentConfig.fallback) {
+            throw new Error(
+                `Agent "${agentName}" sets onBudgetExceeded: 'fallback' but has no fallback`,
+            );
+        }
+    }
 
     const providerCache = new Map<string, ResolvedProvider>();
     const modelCache = new Map<string, LanguageModel>();
+    const embeddingModelCache = new Map<string, EmbeddingModel>();
+    const imageModelCache = new Map<string, ImageModel>();
+    const transcriptionModelCache = new Map<string, TranscriptionModel>();
+    const breaker = circuitBreaker && createCircuitBreaker({ logger, ...circuitBreaker });
+    const budgetTracker = createBudgetTracker({ logger, store: budgetStore });
+    const globalBudgets: Budget[] = budget ? [{ limits: [budget].flat(), name: 'global' }] : [];
+    const ledger = createUsageLedger();
+
+    // Calls to an unpriced model resolve no cost: they escape budgets and
+    // Show up in usage summaries for free.
+    for (const [agentName, agentConfig] of Object.entries(agents)) {
+        const refs = [agentConfig, ...(agentConfig.fallback ? [agentConfig.fallback].flat() : [])];
+        for (const ref of refs) {
+            const providerConfig = providers[ref.provider];
+            if (
+                providerConfig &&
+                !SELF_PRICED_PROVIDER_TYPES.has(providerConfig.type) &&
+                !providerConfig.costExtractors &&
+                !pricingFor(ref)
+            ) {
+                logger?.warn('ai.pricing.missing', {
+                    agent: agentName,
+                    modelRef: `${ref.provider}/${ref.model}`,
+                });
+            }
+        }
+    }
 
     function resolveProvider(providerKey: string): ResolvedProvider {
         let provider = providerCache.get(providerKey);
         if (!provider) {
-            provider = createProvider(providers[providerKey]);
+            const providerConfig = providers[providerKey];
+            const factory = providerFactories?.[providerConfig.type];
+            provider = factory
+                ? factory(providerConfig as never)
+                : createProvider(providerConfig as ProviderConfig);
             providerCache.set(providerKey, provider);
         }
         return provider;
     }
 
-    function buildModel(ref: ModelRef): LanguageModel {
+    function buildModel(ref: ModelRef, budgets: Budget[], agentName: string): LanguageModel {
         assertProviderExists(ref.provider, providers);
 
         const provider = resolveProvider(ref.provider);
         const baseModel = provider.model(ref.model) as LanguageModelV4;
-        const pricingKey = `${ref.provider}/${ref.model}`;
 
+        // Wrapping each model of the chain, rather than the agent, records the
+        // Attributes of the model that actually answered.
         return wrapLanguageModel({
             model: baseModel,
             middleware: [
-                createCostMiddleware({ modelRef: pricingKey, pricing: pricing?.[pricingKey] }),
+                createCostMiddleware(costOptions(ref, budgets, agentName)),
+                createTelemetryMiddleware({ agent: agentName, provider: ref.provider }),
             ],
         });
     }
 
-    function buildAgentModel(agentName: string): LanguageModel {
-        const agentConfig = agents[agentName];
-        if (!agentConfig) {
-            const available = Object.keys(agents).join(', ') || '(none configured)';
-            throw new Error(`Unknown agent "${agentName}". Available agents: ${available}.`);
+    /** Records `usage` in the ledgers, charges it to `budgets`, and hands it to `onUsage` */
+    function recordUsage(usage: CallUsage, budgets: Budget[], agent: string | undefined): void {
+        const record: UsageRecord = { ...usage, agent, timestamp: new Date() };
+        ledger.record(record);
+        // Keyed by the instance ledger, so instances sharing a scope stay apart.
+        activeUsageLedger(ledger)?.record(record);
+        if (usage.costUsd !== undefined && budgets.length > 0) {
+            budgetTracker.record(budgets, usage.costUsd).catch((error: unknown) => {
+                logger?.error('ai.budget.record_failed', { error });
+            });
         }
+        onUsage?.(record);
+    }
 
-        const primary = buildModel({ model: agentConfig.model, provider: agentConfig.provider });
-        const composed = agentConfig.fallback
-            ? createFallbackModel({
-                  fallback: buildModel(agentConfig.fallback),
-                  logger,
-                  primary,
-              })
-            : primary;
+    /** The `pricing` entry of `ref`, falling back to the bundled catalogue */
+    function pricingFor(ref: Pick<ModelRef, 'model' | 'provider'>): CostPricing | undefined {
+        return (
+            pricing?.[`${ref.provider}/${ref.model}`] ??
+            findCataloguePricing(providers[ref.provider].type, ref.model)
+        );
+    }
 
-        if (!logger) {
-            return composed;
+    /**
+     * Cost options shared by every kind of model built for `ref`, recording
+     * each call's usage for `agent` (if any) and charging it to `budgets`
+     */
+    function costOptions(
+        ref: Pick<ModelRef, 'model' | 'provider'>,
+        budgets = globalBudgets,
+        agent?: string,
+    ) {
+        const pricingKey = `${ref.provider}/${ref.model}`;
+        return {
+            agent,
+            costExtractors: providers[ref.provider].costExtractors,
+            // Local models cost nothing, whatever `pricing` says.
+            free: providers[ref.provider].type === 'ollama',
+            modelRef: pricingKey,
+            onUsage: (usage: CallUsage) => recordUsage(usage, budgets, agent),
+            pricing: pricingFor(ref),
+        };
+    }
+
+    function resolveCapability<
+        TKind extends 'embeddingModel' | 'imageModel' | 'transcriptionModel',
+    >(providerKey: string, kind: TKind, label: string): NonNullable<ResolvedProvider[TKind]> {
+        assertProviderExists(providerKey, providers);
+
+        const capability = resolveProvider(providerKey)[kind];
+        if (!capability) {
+            throw new Error(`Provider "${providerKey}" does not support ${label}.`);
         }
+        return capability;
+    }
 
-        return wrapLanguageModel({
-            model: composed as LanguageModelV4,
-            middleware: [createLoggingMiddleware({ logger })],
+    function buildEmbeddingModel(embedderName: string): EmbeddingModel {
+        const ref = findEntry('embedder', embedders, embedderName);
+        const embeddingModel = resolveCapability(
+            ref.provider,
+            'embeddingModel',
+            'embedding models',
+        );
+
+        return wrapEmbeddingModel({
+            model: embeddingModel(ref.model) as EmbeddingModelV4,
+            middleware: [
+                ...(logger ? [createEmbeddingLoggingMiddleware({ logger })] : []),
+                createEmbeddingCostMiddleware(costOptions(ref)),
+            ],
         });
     }
 
+    function buildImageModel(name: string): ImageModel {
+        const ref = findEntry('image model', imageModels, name);
+        const imageModel = resolveCapability(ref.provider, 'imageModel', 'image models');
+
+        return wrapImageModel({
+            model: imageModel(ref.model) as ImageModelV4,
+            middleware: createImageCostMiddleware(costOptions(ref)),
+        });
+    }
+
+    function buildTranscriptionModel(name: string): TranscriptionModel {
+        const ref = findEntry('transcription model', transcriptionModels, name);
+        const transcriptionModel = resolveCapability(
+            ref.provider,
+            'transcriptionModel',
+            'transcription models',
+        );
+
+        return createTranscriptionCostModel({
+            model: transcriptionModel(ref.model),
+            ...costOptions(ref),
+        });
+    }
+
+    function buildChain(agentName: string, agentConfig: AgentConfig): LanguageModel {
+        const agentBudgets: Budget[] = agentConfig.budget
+            ? [{ limits: [agentConfig.budget].flat(), name: `agent:${agentName}` }]
+            : [];
+        const budgets = [...globalBudgets, ...agentBudgets];
+        const routeToFallback = agentConfig.onBudgetExceeded === 'fallback';
+
+        const refs: ModelRef[] = [
+            {
+                model: agentConfig.model,
+                provider: agentConfig.provider,
+                timeoutMs: agentConfig.timeoutMs,
+            },
+            ...(agentConfig.fallback ? [agentConfig.fallback].flat() : []),
+        ];
+        const [primary, ...fallbacks] = refs.map((ref, index) => {
+            const base = buildModel(ref, budgets, agentName);
+            const model = ref.timeoutMs
+                ? createTimeoutModel({ model: base, timeoutMs: ref.timeoutMs })
+                : base;
+            const retried = agentConfig.retry
+                ? createRetryModel({ logger, model, policy: agentConfig.retry })
+                : model;
+
+            // The last model of the chain has nowhere to fail over to: an open
+            // Circuit there would only turn a slow failure into a fast one.
+            const guarded =
+                breaker && index < refs.length - 1
+                    ? createCircuitBreakerModel({
+                          breaker,
+                          key: `${ref.provider}/${ref.model}`,
+                          model: retried,
+                      })
+                    : retried;
+
+            // A spent agent budget fails the primary as retryable, so the
+            // Fallback chain takes over.
+            return routeToFallback && index === 0 && agentBudgets.length > 0
+                ? createBudgetModel({
+                      budgets: agentBudgets,
+                      model: guarded,
+                      retryable: true,
+                      tracker: budgetTracker,
+                  })
+                : guarded;
+        });
+        const chained =
+            fallbacks.length > 0
+                ? createFallbackModel({
+                      agent: agentName,
+                      fallback: fallbacks,
+                      logger,
+                      midStreamFallback: agentConfig.midStreamFallback,
+                      modelRefs: refs.map((ref) => `${ref.provider}/${ref.model}`),
+                      primary,
+                  })
+                : primary;
+        const timed = agentConfig.deadlineMs
+            ? createTimeoutModel({ model: chained, timeoutMs: agentConfig.deadlineMs })
+            : chained;
+
+        const rejectingBudgets = routeToFallback ? globalBudgets : budgets;
+        return rejectingBudgets.length > 0
+            ? createBudgetModel({ budgets: rejectingBudgets, model: timed, tracker: budgetTracker })
+            : timed;
+    }
+
+    function buildAgentModel(agentName: string): LanguageModel {
+        const agentConfig = findEntry('agent', agents, agentName);
+        const modelRef = `${agentConfig.provider}/${agentConfig.model}`;
+
+        // Cassettes sit right under the cache and logging: a replayed call
+        // Never builds, let alone reaches, the provider chain.
+        let composed: LanguageModel;
+        if (mode === 'replay' && cassetteDirectory !== undefined) {
+            composed = createReplayModel({ directory: cassetteDirectory, modelRef });
+        } else if (mode === 'record' && cassetteDirectory !== undefined) {
+            composed = createRecordingModel({
+                directory: cassetteDirectory,
+                model: buildChain(agentName, agentConfig),
+                modelRef,
+            });
+        } else {
+            composed = buildChain(agentName, agentConfig);
+        }
+
+        // Logging sits outermost, so cache hits are still logged.
+        const logging: Partial<LoggingMiddlewareOptions> | undefined =
+            agentConfig.logging === false
+                ? undefined
+                : { logger, redaction, ...agentConfig.logging };
+        const middleware = [
+            ...(logging?.logger
+                ? [createLoggingMiddleware({ ...logging, logger: logging.logger })]
+                : []),
+            ...(agentConfig.cache
+                ? [createCacheMiddleware({ ...agentConfig.cache, modelRef })]
+                : []),
+        ];
+        if (middleware.length === 0) {
+            return composed;
+        }
+
+        return wrapLanguageModel({ model: composed as LanguageModelV4, middleware });
+    }
+
     return {
+        embeddingModel(embedderName: string): EmbeddingModel {
+            let model = embeddingModelCache.get(embedderName);
+            if (!model) {
+                model = buildEmbeddingModel(embedderName);
+                embeddingModelCache.set(embedderName, model);
+            }
+            return model;
+        },
+
+        imageModel(name: string): ImageModel {
+            let model = imageModelCache.get(name);
+            if (!model) {
+                model = buildImageModel(name);
+                imageModelCache.set(name, model);
+            }
+            return model;
+        },
+
         model(agentName: string): LanguageModel {
             let model = modelCache.get(agentName);
             if (!model) {
@@ -192,5 +741,21 @@ export function createIntelligence(config: IntelligenceConfig): Intelligence {
             }
             return model;
         },
+
+        transcriptionModel(name: string): TranscriptionModel {
+            let model = transcriptionModelCache.get(name);
+            if (!model) {
+                model = buildTranscriptionModel(name);
+                transcriptionModelCache.set(name, model);
+            }
+            return model;
+        },
+
+        usage({ scoped = false } = {}): UsageSummary {
+            if (!scoped) {
+                return ledger.summary();
+            }
+            return (activeUsageLedger(ledger) ?? createUsageLedger()).summary();
+        },
     };
 }
@@ -17,6 +17,16 @@ const TYPOGRAPHY_REPLACEMENTS: Array<{ pattern: RegExp; replacement: string }> =
     { pattern: /[\u2022\u25AA-\u25AB\u25B8-\u25B9\u25CF]/g, replacement: '-' },
 ];
 
+/** Whether a text contains zero-width, bidi-control or other invisible characters */
+export function hasInvisibleChars(text: string): boolean {
+    return text.search(INVISIBLE_CHARS_RE) !== -1;
+}
+
+/** Removes the zero-width, bidi-control and other invisible characters of a text */
+export function removeInvisibleChars(text: string): string {
+    return text.replace(INVISIBLE_CHARS_RE, '');
+}
+
 export interface CleanAiTextOptions {
     /** Collapse multiple spaces into one (default: true) */
     collapseSpaces?: boolean;
@@ -43,7 +53,7 @@ export function cleanAiText(text: string, options: CleanAiTextOptions = {}): str
     result = result.replace(CR_RE, '\n');
     result = result.replace(CITATION_RE, '');
     result = result.normalize('NFKC');
-    result = result.replace(INVISIBLE_CHARS_RE, '');
+    result = removeInvisibleChars(result);
     result = result.replace(ASCII_CTRL_RE, '');
 
     if (normalizeEmDashesToCommas) {
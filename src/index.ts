@@ -2,25 +2,144 @@
 export {
     type AgentConfig,
     createIntelligence,
+    type EmbedderConfig,
+    type ImageModelConfig,
     type Intelligence,
     type IntelligenceConfig,
+    type ModelRef,
     type ProviderConfig,
+    type ProviderFactory,
+    type TranscriptionModelConfig,
 } from './factory/create-intelligence.js';
 
+// Budget
+export { type BudgetScope, withBudgetScope } from './budget/budget-scope.js';
+export type { BudgetStore } from './budget/budget-store.js';
+export { createMemoryBudgetStore } from './budget/memory-budget-store.js';
+
+// Cache
+export type { CacheStore } from './cache/cache-store.js';
+export { createFileCacheStore, type FileCacheStoreOptions } from './cache/file-cache-store.js';
+export {
+    createMemoryCacheStore,
+    type MemoryCacheStoreOptions,
+} from './cache/memory-cache-store.js';
+
 // Middleware
 export {
+    type CacheMiddlewareOptions,
+    createCacheMiddleware,
+} from './middleware/cache.middleware.js';
+export {
+    type CallUsage,
+    type CostExtractor,
     type CostMiddlewareOptions,
     type CostPricing,
+    type CostResponse,
     createCostMiddleware,
+    createEmbeddingCostMiddleware,
+    createHeaderCostExtractor,
+    createImageCostMiddleware,
+    createMetadataCostExtractor,
+    createTranscriptionCostModel,
+    liteLlmCostExtractor,
+    openRouterCostExtractor,
+    type PricingTier,
+    type TranscriptionCostModelOptions,
 } from './middleware/cost.middleware.js';
 export {
+    type ContentLoggingOptions,
+    createEmbeddingLoggingMiddleware,
     createLoggingMiddleware,
+    type EmbeddingLoggingMiddlewareOptions,
     type LoggingMiddlewareOptions,
 } from './middleware/logging.middleware.js';
+export {
+    ContentModerationError,
+    createModerationMiddleware,
+    createWordlistModerator,
+    type ModerationAction,
+    type ModerationMiddlewareOptions,
+    type ModerationVerdict,
+    type Moderator,
+} from './middleware/moderation.middleware.js';
+export {
+    createPromptInjectionGuardMiddleware,
+    detectPromptInjection,
+    PromptInjectionError,
+    type PromptInjectionGuardOptions,
+    type PromptInjectionMode,
+    type PromptInjectionPattern,
+} from './middleware/prompt-injection-guard.middleware.js';
 export { createSchemaInstructionMiddleware } from './middleware/schema-instruction.middleware.js';
+export {
+    createTelemetryMiddleware,
+    type TelemetryMiddlewareOptions,
+} from './middleware/telemetry.middleware.js';
 
 // Model
-export { createFallbackModel, type FallbackModelOptions } from './model/fallback-model.js';
+export {
+    type Budget,
+    BudgetExceededError,
+    type BudgetLimit,
+    type BudgetModelOptions,
+    type BudgetTracker,
+    type BudgetTrackerOptions,
+    type BudgetWindow,
+    createBudgetModel,
+    createBudgetTracker,
+} from './model/budget-model.js';
+export {
+    type CassetteMode,
+    CassetteNotFoundError,
+    createRecordingModel,
+    createReplayModel,
+    type RecordingModelOptions,
+    type ReplayModelOptions,
+} from './model/cassette-model.js';
+export {
+    type CircuitBreaker,
+    type CircuitBreakerModelOptions,
+    type CircuitBreakerOptions,
+    CircuitOpenError,
+    type CircuitState,
+    createCircuitBreaker,
+    createCircuitBreakerModel,
+} from './model/circuit-breaker.js';
+export {
+    createFallbackModel,
+    type FallbackModelOptions,
+    type MidStreamFallbackOptions,
+} from './model/fallback-model.js';
+export { createRetryModel, type RetryModelOptions, type RetryPolicy } from './model/retry-model.js';
+export {
+    createTimeoutModel,
+    ModelTimeoutError,
+    type TimeoutModelOptions,
+} from './model/timeout-model.js';
+
+// Pricing
+export { findCataloguePricing } from './pricing/pricing-catalogue.js';
+
+// Redaction
+export {
+    createRedactingTracer,
+    createRedactor,
+    type RedactionDetector,
+    type RedactionOptions,
+    type Redactor,
+    type TextRedactor,
+} from './redaction/redaction.js';
+
+// Usage
+export {
+    createUsageLedger,
+    type UsageLedger,
+    type UsageRecord,
+    type UsageSummary,
+    type UsageTotals,
+} from './usage/usage-ledger.js';
+export { withUsageScope } from './usage/usage-scope.js';
 
 // Provider - OpenRouter
 export {
@@ -36,3 +155,38 @@ export {
     type GatewayConfig,
     type GatewayProvider,
 } from './provider/gateway.provider.js';
+
+// Provider - Ollama
+export {
+    createOllamaProvider,
+    type OllamaConfig,
+    type OllamaProvider,
+} from './provider/ollama.provider.js';
+
+// Provider - Anthropic
+export {
+    createAnthropicProvider,
+    type AnthropicConfig,
+    type AnthropicProvider,
+} from './provider/anthropic.provider.js';
+
+// Provider - OpenAI
+export {
+    createOpenAIProvider,
+    type OpenAIConfig,
+    type OpenAIProvider,
+} from './provider/openai.provider.js';
+
+// Provider - Google
+export {
+    createGoogleProvider,
+    type GoogleConfig,
+    type GoogleProvider,
+} from './provider/google.provider.js';
+
+// Provider - Mistral
+export {
+    createMistralProvider,
+    type MistralConfig,
+    type MistralProvider,
+} from './provider/mistral.provider.js';
@@ -23,7 +23,7 @@ export const RULE_DOCS: Record<string, RuleDoc> = {
     'm1-model-resolution-in-container': {
         id: 'M1',
         convention:
-            "Calls to `createIntelligence(...)`, `createGatewayProvider(...)`, `createOpenRouterProvider(...)`, and `.model('…')` on the value they produce, are only allowed in a file whose path contains `/di/` or whose name ends in `container.ts`.",
+            "Calls to `createIntelligence(...)`, the provider factories (`createOpenRouterProvider(...)`, `createGatewayProvider(...)`, `createAnthropicProvider(...)`, …), and `.model('…')` on the value they produce, are only allowed in a file whose path contains `/di/` or whose name ends in `container.ts`.",
         rationale:
             'Model resolution is composition-root work — scattering it lets a provider/model choice drift outside the one place meant to own it.',
     },
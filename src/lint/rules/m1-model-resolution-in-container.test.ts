@@ -31,6 +31,12 @@ ruleTester.run(
                 errors: [{ messageId: 'factoryOutsideContainer' }],
                 filename: OUTSIDE,
             },
+            // A direct-provider factory outside the allow-listed locations.
+            {
+                code: "import { createAnthropicProvider } from '@jterrazz/intelligence';\nconst p = createAnthropicProvider({ apiKey: 'key' });",
+                errors: [{ messageId: 'factoryOutsideContainer' }],
+                filename: OUTSIDE,
+            },
             // .model('…') called outside the allow-listed locations, file imports the package.
             {
                 code: "import { createIntelligence } from '@jterrazz/intelligence';\nconst i = createIntelligence({});\nconst m = i.model('summarizer');",
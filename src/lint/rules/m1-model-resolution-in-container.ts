@@ -4,8 +4,13 @@ import type { AstNode, LintRule, RuleContext, Visitor } from '../types.js';
 
 /** The composition-root factories `@jterrazz/intelligence` exposes. */
 const FACTORY_NAMES = new Set([
+    'createAnthropicProvider',
     'createGatewayProvider',
+    'createGoogleProvider',
     'createIntelligence',
+    'createMistralProvider',
+    'createOllamaProvider',
+    'createOpenAIProvider',
     'createOpenRouterProvider',
 ]);
 
@@ -16,7 +21,7 @@ function isContainerFile(file: string): boolean {
 
 /**
  * CONVENTIONS M1 — model resolution is composition-root work. `createIntelligence`
- * and the two provider factories, plus `.model('…')` calls on whatever they
+ * and the provider factories, plus `.model('…')` calls on whatever they
  * produce, are only allowed in a file under `di/` or named `*container.ts`.
  *
  * Detection is best effort by design: a `.model(<string literal>)` call is
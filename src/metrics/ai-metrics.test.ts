@@ -0,0 +1,117 @@
+import { metrics } from '@opentelemetry/api';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { labelsOf, recordCallMetrics, recordFallbackMetric } from './ai-metrics.js';
+
+/** A meter whose instruments keep what they record, by instrument name */
+function createMockMeter() {
+    const recorded = new Map<string, Array<[number, unknown]>>();
+    const instrument = (name: string) => {
+        const write = vi.fn((value: number, attributes: unknown) => {
+            recorded.set(name, [...(recorded.get(name) ?? []), [value, attributes]]);
+        });
+        return { add: write, record: write };
+    };
+    return {
+        meter: { createCounter: vi.fn(instrument), createHistogram: vi.fn(instrument) },
+        recorded,
+    };
+}
+
+const labels = { agent: 'summarizer', model: 'openai/gpt-4o-mini', provider: 'openrouter' };
+
+describe('ai metrics', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('records the duration, time to first token, tokens and cost of a call', () => {
+        // Given
+        const { meter, recorded } = createMockMeter();
+        vi.spyOn(metrics, 'getMeter').mockReturnValue(meter as never);
+
+        // When
+        recordCallMetrics(labels, {
+            costUsd: 0.002,
+            durationMs: 1500,
+            inputTokens: 10,
+            outcome: 'success',
+            outputTokens: 5,
+            timeToFirstTokenMs: 250,
+        });
+
+        // Then
+        expect(recorded.get('ai.call.duration')).toEqual([
+            [1.5, { ...labels, outcome: 'success' }],
+        ]);
+        expect(recorded.get('ai.call.time_to_first_token')).toEqual([
+            [0.25, { ...labels, outcome: 'success' }],
+        ]);
+        expect(recorded.get('ai.tokens')).toEqual([
+            [10, { ...labels, type: 'input' }],
+            [5, { ...labels, type: 'output' }],
+        ]);
+        expect(recorded.get('ai.cost')).toEqual([[0.002, labels]]);
+        expect(recorded.has('ai.errors')).toBe(false);
+    });
+
+    test('counts a failed call as an error, without tokens or cost', () => {
+        const { meter, recorded } = createMockMeter();
+        vi.spyOn(metrics, 'getMeter').mockReturnValue(meter as never);
+
+        recordCallMetrics(labels, {
+            costUsd: undefined,
+            durationMs: 300,
+            inputTokens: 0,
+            outcome: 'error',
+            outputTokens: 0,
+        });
+
+        expect(recorded.get('ai.call.duration')).toEqual([[0.3, { ...labels, outcome: 'error' }]]);
+        expect(recorded.get('ai.errors')).toEqual([[1, labels]]);
+        expect(recorded.has('ai.tokens')).toBe(false);
+    });
+
+    test('counts fallbacks, and leaves out an unknown agent', () => {
+        const { meter, recorded } = createMockMeter();
+        vi.spyOn(metrics, 'getMeter').mockReturnValue(meter as never);
+
+        recordFallbackMetric({ agent: undefined, model: 'gpt-4o', provider: 'openai' });
+
+        expect(recorded.get('ai.fallbacks')).toEqual([
+            [1, { model: 'gpt-4o', provider: 'openai' }],
+        ]);
+    });
+
+    test('creates instruments again once the host app registers a meter provider', () => {
+        // Given -- a first record before any provider, then one after
+        const before = createMockMeter();
+        const after = createMockMeter();
+        const getMeter = vi.spyOn(metrics, 'getMeter').mockReturnValue(before.meter as never);
+        recordFallbackMetric(labels);
+
+        // When
+        getMeter.mockReturnValue(after.meter as never);
+        recordFallbackMetric(labels);
+
+        // Then
+        expect(before.recorded.get('ai.fallbacks')).toHaveLength(1);
+        expect(after.recorded.get('ai.fallbacks')).toHaveLength(1);
+    });
+
+    test('never throws when the meter fails', () => {
+        vi.spyOn(metrics, 'getMeter').mockImplementation(() => {
+            throw new Error('metrics backend exploded');
+        });
+
+        expect(() => recordFallbackMetric(labels)).not.toThrow();
+    });
+
+    test('splits a model reference into provider and model labels', () => {
+        expect(labelsOf('openrouter/anthropic/claude-sonnet-4', 'summarizer')).toEqual({
+            agent: 'summarizer',
+            model: 'anthropic/claude-sonnet-4',
+            provider: 'openrouter',
+        });
+    });
+});
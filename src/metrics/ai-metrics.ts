@@ -0,0 +1,131 @@
+import {
+    type Counter,
+    type Histogram,
+    type Meter,
+    type MetricAttributes,
+    metrics,
+} from '@opentelemetry/api';
+
+const METER_NAME = '@jterrazz/intelligence';
+
+/** Labels shared by every metric: who made the call, to which model, and how it ended */
+interface CallLabels {
+    agent: string | undefined;
+    provider: string;
+    model: string;
+}
+
+type CallOutcome = 'error' | 'success';
+
+interface Instruments {
+    duration: Histogram;
+    timeToFirstToken: Histogram;
+    tokens: Counter;
+    cost: Counter;
+    errors: Counter;
+    fallbacks: Counter;
+}
+
+function createInstruments(meter: Meter): Instruments {
+    return {
+        cost: meter.createCounter('ai.cost', {
+            description: 'USD cost of model calls',
+            unit: 'USD',
+        }),
+        duration: meter.createHistogram('ai.call.duration', {
+            description: 'Duration of model calls, until the last part for streams',
+            unit: 's',
+        }),
+        errors: meter.createCounter('ai.errors', {
+            description: 'Failed model calls',
+            unit: '{call}',
+        }),
+        fallbacks: meter.createCounter('ai.fallbacks', {
+            description: 'Switches from a failed model to the next one of its fallback chain',
+            unit: '{fallback}',
+        }),
+        timeToFirstToken: meter.createHistogram('ai.call.time_to_first_token', {
+            description: 'Time from opening a stream to its first content part',
+            unit: 's',
+        }),
+        tokens: meter.createCounter('ai.tokens', {
+            description: 'Tokens consumed by model calls, by `type` (input or output)',
+            unit: '{token}',
+        }),
+    };
+}
+
+let cached: { meter: Meter; instruments: Instruments } | undefined;
+
+/**
+ * The instruments of the current global meter provider. Looked up on every
+ * record rather than once: a meter taken before the host app registers its
+ * OTel SDK would stay a no-op forever.
+ */
+function instruments(): Instruments {
+    const meter = metrics.getMeter(METER_NAME);
+    if (cached?.meter !== meter) {
+        cached = { instruments: createInstruments(meter), meter };
+    }
+    return cached.instruments;
+}
+
+function attributesOf(labels: CallLabels, extra: MetricAttributes = {}): MetricAttributes {
+    return {
+        ...(labels.agent !== undefined && { agent: labels.agent }),
+        model: labels.model,
+        provider: labels.provider,
+        ...extra,
+    };
+}
+
+/** Splits a `"<provider>/<model>"` reference into its metric labels */
+export function labelsOf(modelRef: string, agent: string | undefined): CallLabels {
+    const separator = modelRef.indexOf('/');
+    return separator === -1
+        ? { agent, model: modelRef, provider: 'unknown' }
+        : { agent, model: modelRef.slice(separator + 1), provider: modelRef.slice(0, separator) };
+}
+
+function record(write: (instruments: Instruments) => void): void {
+    try {
+        write(instruments());
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
+    }
+}
+
+interface CallMetrics {
+    durationMs: number;
+    outcome: CallOutcome;
+    /** Absent for calls that aren't streamed or never produced content */
+    timeToFirstTokenMs?: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number | undefined;
+}
+
+/** Records the duration, time to first token, tokens, cost and failure of one call */
+export function recordCallMetrics(labels: CallLabels, call: CallMetrics): void {
+    record(({ cost, duration, errors, timeToFirstToken, tokens }) => {
+        const attributes = attributesOf(labels, { outcome: call.outcome });
+        duration.record(call.durationMs / 1000, attributes);
+        if (call.timeToFirstTokenMs !== undefined) {
+            timeToFirstToken.record(call.timeToFirstTokenMs / 1000, attributes);
+        }
+        if (call.outcome === 'error') {
+            errors.add(1, attributesOf(labels));
+            return;
+        }
+        tokens.add(call.inputTokens, attributesOf(labels, { type: 'input' }));
+        tokens.add(call.outputTokens, attributesOf(labels, { type: 'output' }));
+        if (call.costUsd !== undefined) {
+            cost.add(call.costUsd, attributesOf(labels));
+        }
+    });
+}
+
+/** Records a switch from the model of `labels` to the next one of its fallback chain */
+export function recordFallbackMetric(labels: CallLabels): void {
+    record(({ fallbacks }) => fallbacks.add(1, attributesOf(labels)));
+}
@@ -0,0 +1,245 @@
+import { trace } from '@opentelemetry/api';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { createMemoryCacheStore } from '../cache/memory-cache-store.js';
+import { createCacheMiddleware } from './cache.middleware.js';
+
+function createMockModel() {
+    return {
+        modelId: 'test-model',
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+    };
+}
+
+function createMockGenerateResult(overrides: Record<string, unknown> = {}) {
+    return {
+        content: [{ type: 'text' as const, text: 'Hello world' }],
+        finishReason: { unified: 'stop', raw: 'stop' },
+        usage: { inputTokens: { total: 10 }, outputTokens: { total: 5 } },
+        response: { id: 'resp-1', timestamp: new Date('2026-01-01T00:00:00Z') },
+        warnings: [],
+        ...overrides,
+    };
+}
+
+function params(text: string, overrides: Record<string, unknown> = {}) {
+    return {
+        prompt: [{ role: 'user', content: [{ type: 'text', text }] }],
+        ...overrides,
+    } as never;
+}
+
+function streamOf(parts: unknown[]) {
+    return {
+        stream: new ReadableStream({
+            start(controller) {
+                for (const part of parts) {
+                    controller.enqueue(part);
+                }
+                controller.close();
+            },
+        }),
+    };
+}
+
+async function drain(stream: ReadableStream | undefined): Promise<unknown[]> {
+    const parts: unknown[] = [];
+    const reader = stream?.getReader();
+    for (;;) {
+        const chunk = await reader?.read();
+        if (!chunk || chunk.done) {
+            return parts;
+        }
+        parts.push(chunk.value);
+    }
+}
+
+const streamParts = [
+    { type: 'stream-start', warnings: [] },
+    { type: 'response-metadata', id: 'resp-1', timestamp: new Date('2026-01-01T00:00:00Z') },
+    { type: 'text-delta', id: '1', delta: 'Hi' },
+    { type: 'finish', finishReason: { unified: 'stop', raw: 'stop' }, usage: {} },
+];
+
+describe('createCacheMiddleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('wrapGenerate', () => {
+        test('serves a repeated call from the cache, reviving the response timestamp', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doGenerate = vi.fn().mockResolvedValue(createMockGenerateResult());
+            const call = () =>
+                middleware.wrapGenerate?.({
+                    doGenerate,
+                    doStream: vi.fn(),
+                    model: createMockModel() as never,
+                    params: params('Hello'),
+                });
+
+            // When
+            await call();
+            const cached = await call();
+
+            // Then -- the model was only called once
+            expect(doGenerate).toHaveBeenCalledTimes(1);
+            expect(cached?.content).toEqual([{ type: 'text', text: 'Hello world' }]);
+            expect(cached?.response?.timestamp).toEqual(new Date('2026-01-01T00:00:00Z'));
+        });
+
+        test('misses when the prompt, settings or model differ', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doGenerate = vi.fn().mockResolvedValue(createMockGenerateResult());
+            const call = (callParams: never, modelRef = 'test') =>
+                middleware.wrapGenerate?.({
+                    doGenerate,
+                    doStream: vi.fn(),
+                    model: { ...createMockModel(), provider: modelRef } as never,
+                    params: callParams,
+                });
+
+            // When
+            await call(params('Hello'));
+            await call(params('Goodbye'));
+            await call(params('Hello', { temperature: 0.5 }));
+            await call(params('Hello', { responseFormat: { type: 'json' } }));
+            await call(params('Hello'), 'other');
+
+            // Then
+            expect(doGenerate).toHaveBeenCalledTimes(5);
+        });
+
+        test('ignores the abort signal, headers and key order', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doGenerate = vi.fn().mockResolvedValue(createMockGenerateResult());
+            const call = (callParams: never) =>
+                middleware.wrapGenerate?.({
+                    doGenerate,
+                    doStream: vi.fn(),
+                    model: createMockModel() as never,
+                    params: callParams,
+                });
+
+            // When
+            await call(params('Hello', { temperature: 0, topP: 1 }));
+            await call({
+                abortSignal: new AbortController().signal,
+                headers: { 'x-request-id': '42' },
+                topP: 1,
+                temperature: 0,
+                prompt: [{ content: [{ text: 'Hello', type: 'text' }], role: 'user' }],
+            } as never);
+
+            // Then
+            expect(doGenerate).toHaveBeenCalledTimes(1);
+        });
+
+        test('does not cache generations finishing with an error', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    finishReason: { unified: 'error', raw: undefined },
+                }),
+            );
+            const call = () =>
+                middleware.wrapGenerate?.({
+                    doGenerate,
+                    doStream: vi.fn(),
+                    model: createMockModel() as never,
+                    params: params('Hello'),
+                });
+
+            // When
+            await call();
+            await call();
+
+            // Then
+            expect(doGenerate).toHaveBeenCalledTimes(2);
+        });
+
+        test('treats a failing store as a miss and records hits on the span', async () => {
+            // Given -- a store that cannot be read
+            const span = { setAttribute: vi.fn() };
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+            const middleware = createCacheMiddleware({
+                store: {
+                    get: vi.fn().mockRejectedValue(new Error('connection refused')),
+                    set: vi.fn().mockRejectedValue(new Error('connection refused')),
+                },
+            });
+            const result = createMockGenerateResult();
+
+            // When
+            const returned = await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(result),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: params('Hello'),
+            });
+
+            // Then
+            expect(returned).toBe(result);
+            expect(span.setAttribute).toHaveBeenCalledWith('ai.cache.hit', false);
+        });
+    });
+
+    describe('wrapStream', () => {
+        test('replays the parts of a completed stream', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doStream = vi.fn().mockImplementation(async () => streamOf(streamParts));
+            const call = async () => {
+                const result = await middleware.wrapStream?.({
+                    doGenerate: vi.fn(),
+                    doStream,
+                    model: createMockModel() as never,
+                    params: params('Hello'),
+                });
+                return drain(result?.stream);
+            };
+
+            // When
+            await call();
+            const replayed = await call();
+
+            // Then
+            expect(doStream).toHaveBeenCalledTimes(1);
+            expect(replayed).toEqual(streamParts);
+        });
+
+        test('does not cache a stream carrying an error part', async () => {
+            // Given
+            const middleware = createCacheMiddleware({ store: createMemoryCacheStore() });
+            const doStream = vi
+                .fn()
+                .mockImplementation(async () =>
+                    streamOf([{ type: 'error', error: new Error('overloaded') }, ...streamParts]),
+                );
+            const call = async () => {
+                const result = await middleware.wrapStream?.({
+                    doGenerate: vi.fn(),
+                    doStream,
+                    model: createMockModel() as never,
+                    params: params('Hello'),
+                });
+                return drain(result?.stream);
+            };
+
+            // When
+            await call();
+            await call();
+
+            // Then
+            expect(doStream).toHaveBeenCalledTimes(2);
+        });
+    });
+});
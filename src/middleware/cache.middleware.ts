@@ -0,0 +1,125 @@
+import type { LanguageModelV4, LanguageModelV4CallOptions } from '@ai-sdk/provider';
+import { trace } from '@opentelemetry/api';
+import type { LanguageModelMiddleware } from 'ai';
+
+import {
+    type CallMode,
+    hashCall,
+    normalizeCall,
+    recordStream,
+    replayStream,
+    reviveGenerateResult,
+    storableGenerateResult,
+    toJson,
+} from '../cache/call-key.js';
+import type { CacheStore } from '../cache/cache-store.js';
+
+const CACHE_HIT_ATTRIBUTE = 'ai.cache.hit';
+
+interface CachedStream {
+    parts: unknown[];
+}
+
+function recordCacheHit(hit: boolean): void {
+    try {
+        trace.getActiveSpan()?.setAttribute(CACHE_HIT_ATTRIBUTE, hit);
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
+    }
+}
+
+export interface CacheMiddlewareOptions {
+    store: CacheStore;
+    /** Time a response is served from the cache (default: until the store evicts it) */
+    ttlMs?: number;
+    /**
+     * Model reference folded into the cache key, e.g.
+     * `'openrouter/google/gemini-2.5-flash-lite'` (default: the wrapped
+     * model's `"<provider>/<modelId>"`)
+     */
+    modelRef?: string;
+}
+
+/**
+ * Creates middleware serving repeated calls from `store`. The cache key is a
+ * SHA-256 hash of the normalized call options — prompt, response format,
+ * tools, tool choice, sampling settings, provider options — and the model
+ * reference, so any change to the request is a miss.
+ *
+ * `doGenerate` results are stored whole, minus the raw request and response
+ * bodies. Streams are recorded part by part and replayed on a hit; only
+ * streams that complete without an error part are stored, as are only
+ * generations that don't finish with an `error` reason.
+ *
+ * Every call sets `ai.cache.hit` on the active OpenTelemetry span. A store
+ * failing to read or write counts as a miss: the cache never breaks
+ * generation.
+ *
+ * @example
+ * ```ts
+ * const model = wrapLanguageModel({
+ *   model: provider.model('google/gemini-2.5-flash-lite'),
+ *   middleware: createCacheMiddleware({
+ *     store: createMemoryCacheStore({ maxEntries: 500 }),
+ *     ttlMs: 60 * 60 * 1000,
+ *   }),
+ * });
+ * ```
+ */
+export function createCacheMiddleware(options: CacheMiddlewareOptions): LanguageModelMiddleware {
+    const { store, ttlMs } = options;
+
+    function keyOf(mode: CallMode, model: LanguageModelV4, params: LanguageModelV4CallOptions) {
+        const modelRef = options.modelRef ?? `${model.provider}/${model.modelId}`;
+        return hashCall(normalizeCall(mode, modelRef, params));
+    }
+
+    async function read(key: string): Promise<unknown> {
+        try {
+            return await store.get(key);
+        } catch {
+            return undefined;
+        }
+    }
+
+    function write(key: string, value: unknown): void {
+        store.set(key, value, ttlMs).catch(() => {
+            // A failed write only costs a future cache hit.
+        });
+    }
+
+    return {
+        specificationVersion: 'v4',
+        wrapGenerate: async ({ doGenerate, model, params }) => {
+            const key = keyOf('generate', model, params);
+            const cached = await read(key);
+            recordCacheHit(cached !== undefined);
+            if (cached !== undefined) {
+                return reviveGenerateResult(cached);
+            }
+
+            const result = await doGenerate();
+            if (result.finishReason?.unified !== 'error') {
+                write(key, storableGenerateResult(result));
+            }
+            return result;
+        },
+
+        wrapStream: async ({ doStream, model, params }) => {
+            const key = keyOf('stream', model, params);
+            const cached = (await read(key)) as CachedStream | undefined;
+            recordCacheHit(cached !== undefined);
+            if (cached !== undefined) {
+                return { stream: replayStream(cached.parts) };
+            }
+
+            const result = await doStream();
+            return {
+                ...result,
+                stream: recordStream(result.stream, (parts) =>
+                    write(key, { parts: toJson(parts) }),
+                ),
+            };
+        },
+    };
+}
@@ -1,7 +1,14 @@
-import { trace } from '@opentelemetry/api';
+import { metrics, trace } from '@opentelemetry/api';
 import { afterEach, describe, expect, test, vi } from 'vitest';
 
-import { createCostMiddleware } from './cost.middleware.js';
+import {
+    createCostMiddleware,
+    createEmbeddingCostMiddleware,
+    createHeaderCostExtractor,
+    createImageCostMiddleware,
+    createMetadataCostExtractor,
+    createTranscriptionCostModel,
+} from './cost.middleware.js';
 
 function createMockSpan() {
     return { setAttribute: vi.fn() };
@@ -66,6 +73,7 @@ describe('createCostMiddleware', () => {
 
             // Then -- the actual reported cost is used, not the pricing estimate
             expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.0042);
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost_source', 'reported');
         });
 
         test('falls back to pricing estimation when actual cost is absent', async () => {
@@ -89,6 +97,234 @@ describe('createCostMiddleware', () => {
 
             // Then
             expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 2);
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost_source', 'estimated');
+        });
+
+        test('reads the cost a LiteLLM proxy reports in its response header', async () => {
+            // Given
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                modelRef: 'proxy/test-model',
+                pricing: { input: 100, output: 100 },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    response: { headers: { 'x-litellm-response-cost': '0.0031' } },
+                }),
+            );
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.0031);
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost_source', 'reported');
+        });
+
+        test('tries only the configured cost extractors, in order', async () => {
+            // Given -- a custom metadata field, and an OpenRouter cost the extractors don't read
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                costExtractors: [
+                    createHeaderCostExtractor('X-Proxy-Cost'),
+                    createMetadataCostExtractor(['proxy', 'cost']),
+                ],
+                modelRef: 'proxy/test-model',
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    providerMetadata: {
+                        openrouter: { usage: { cost: 0.5 } },
+                        proxy: { cost: 0.0007 },
+                    },
+                    response: { headers: {} },
+                }),
+            );
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.0007);
+        });
+
+        test('prices cached, cache-written and reasoning tokens at their own rates', async () => {
+            // Given -- 1M input tokens of which 0.6M cache reads and 0.2M cache writes,
+            // 0.5M output tokens of which 0.3M reasoning
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                modelRef: 'anthropic/test-model',
+                pricing: {
+                    cacheRead: 0.5,
+                    cacheWrite: 6,
+                    input: 5,
+                    output: 10,
+                    perRequest: 0.01,
+                    reasoning: 20,
+                },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    usage: {
+                        inputTokens: { cacheRead: 600_000, cacheWrite: 200_000, total: 1_000_000 },
+                        outputTokens: { reasoning: 300_000, total: 500_000 },
+                    },
+                }),
+            );
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- 1 + 0.3 + 1.2 + 2 + 6 + 0.01, itemized on the span
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost',
+                expect.closeTo(10.51),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.input',
+                expect.closeTo(1),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.cache_read',
+                expect.closeTo(0.3),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.cache_write',
+                expect.closeTo(1.2),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.output',
+                expect.closeTo(2),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.reasoning',
+                expect.closeTo(6),
+            );
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost.request',
+                expect.closeTo(0.01),
+            );
+        });
+
+        test('prices cache and reasoning tokens at the input and output rates by default', async () => {
+            // Given
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                modelRef: 'openai/test-model',
+                pricing: { input: 1, output: 2 },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    usage: {
+                        inputTokens: { cacheRead: 400_000, total: 1_000_000 },
+                        outputTokens: { reasoning: 250_000, total: 500_000 },
+                    },
+                }),
+            );
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- the same as without a breakdown
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 2);
+        });
+
+        test('prices a long prompt entirely at the highest tier it exceeds', async () => {
+            // Given -- a 250k-token prompt, past both the 128k and 200k tiers
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                modelRef: 'google/test-model',
+                pricing: {
+                    input: 1,
+                    output: 4,
+                    tiers: [
+                        { aboveInputTokens: 200_000, input: 3 },
+                        { aboveInputTokens: 128_000, input: 2, output: 8 },
+                    ],
+                },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    usage: {
+                        inputTokens: { total: 250_000 },
+                        outputTokens: { total: 100_000 },
+                    },
+                }),
+            );
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- input at the 200k tier rate, output at the base rate it leaves unset
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost',
+                expect.closeTo(1.15),
+            );
+        });
+
+        test('prices a prompt within every tier at the base rates', async () => {
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                modelRef: 'google/test-model',
+                pricing: { input: 1, output: 4, tiers: [{ aboveInputTokens: 200_000, input: 3 }] },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(
+                createMockGenerateResult({
+                    usage: {
+                        inputTokens: { total: 200_000 },
+                        outputTokens: { total: 100_000 },
+                    },
+                }),
+            );
+
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            expect(span.setAttribute).toHaveBeenCalledWith(
+                'gen_ai.usage.cost',
+                expect.closeTo(0.6),
+            );
         });
 
         test('falls back to pricing estimation when actual cost is zero', async () => {
@@ -117,6 +353,30 @@ describe('createCostMiddleware', () => {
             expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 2);
         });
 
+        test('records a zero cost for a free (local) model, ignoring pricing', async () => {
+            // Given -- a local model with pricing configured anyway
+            const span = createMockSpan();
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+            const middleware = createCostMiddleware({
+                free: true,
+                modelRef: 'ollama/llama3.1:8b',
+                pricing: { input: 1, output: 2 },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(createMockGenerateResult());
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then
+            expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0);
+        });
+
         test('sets only the model attribute when no cost can be determined', async () => {
             // Given -- no actual cost and no pricing configured
             const span = createMockSpan();
@@ -161,6 +421,57 @@ describe('createCostMiddleware', () => {
             ).resolves.toBeDefined();
         });
 
+        test('reports usage and cost to onUsage, even without an active span', async () => {
+            // Given
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(undefined);
+            const onUsage = vi.fn();
+
+            const middleware = createCostMiddleware({
+                modelRef: 'openrouter/test-model',
+                onUsage,
+                pricing: { input: 1, output: 2 },
+            });
+            const doGenerate = vi.fn().mockResolvedValue(createMockGenerateResult());
+
+            // When
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+
+            // Then
+            expect(onUsage).toHaveBeenCalledWith({
+                costUsd: 2,
+                error: false,
+                inputTokens: 1_000_000,
+                modelRef: 'openrouter/test-model',
+                outputTokens: 500_000,
+            });
+        });
+
+        test('reports a failed call to onUsage as an error', async () => {
+            // Given
+            const onUsage = vi.fn();
+            const middleware = createCostMiddleware({ modelRef: 'openrouter/test-model', onUsage });
+
+            // When
+            await expect(
+                middleware.wrapGenerate?.({
+                    doGenerate: vi.fn().mockRejectedValue(new Error('HTTP 503')),
+                    doStream: vi.fn(),
+                    params: {} as never,
+                    model: createMockModel() as never,
+                }),
+            ).rejects.toThrow('HTTP 503');
+
+            // Then
+            expect(onUsage).toHaveBeenCalledWith(
+                expect.objectContaining({ costUsd: undefined, error: true }),
+            );
+        });
+
         test('never throws when enrichment itself fails', async () => {
             // Given -- setAttribute throws (simulating a broken telemetry backend)
             const span = { setAttribute: vi.fn(() => throwTelemetryError()) };
@@ -232,5 +543,220 @@ describe('createCostMiddleware', () => {
             // Then -- the actual OpenRouter cost from the finish part is recorded
             expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.01);
         });
+
+        test('records the call metrics, with its time to first token', async () => {
+            // Given -- a meter keeping the histogram and counter writes
+            const writes: Array<[string, number, unknown]> = [];
+            const instrument = (name: string) => {
+                const write = (value: number, attributes: unknown) =>
+                    writes.push([name, value, attributes]);
+                return { add: write, record: write };
+            };
+            vi.spyOn(metrics, 'getMeter').mockReturnValue({
+                createCounter: instrument,
+                createHistogram: instrument,
+            } as never);
+
+            const middleware = createCostMiddleware({
+                agent: 'summarizer',
+                modelRef: 'openrouter/test-model',
+                pricing: { input: 1, output: 2 },
+            });
+            const doStream = vi.fn().mockResolvedValue({
+                stream: new ReadableStream({
+                    start(controller) {
+                        controller.enqueue({ type: 'text-delta', id: '1', delta: 'Hi' });
+                        controller.enqueue({
+                            type: 'finish',
+                            finishReason: 'stop',
+                            usage: {
+                                inputTokens: { total: 1_000_000 },
+                                outputTokens: { total: 0 },
+                            },
+                        });
+                        controller.close();
+                    },
+                }),
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doStream,
+                doGenerate: vi.fn(),
+                params: {} as never,
+                model: createMockModel() as never,
+            });
+            const reader = result?.stream.getReader();
+            for (;;) {
+                const chunk = await reader?.read();
+                if (!chunk || chunk.done) {
+                    break;
+                }
+            }
+
+            // Then
+            const labels = { agent: 'summarizer', model: 'test-model', provider: 'openrouter' };
+            expect(writes.map(([name]) => name)).toEqual([
+                'ai.call.duration',
+                'ai.call.time_to_first_token',
+                'ai.tokens',
+                'ai.tokens',
+                'ai.cost',
+            ]);
+            expect(writes).toContainEqual(['ai.cost', 1, labels]);
+            expect(writes).toContainEqual(['ai.tokens', 1_000_000, { ...labels, type: 'input' }]);
+            expect(writes).toContainEqual([
+                'ai.call.time_to_first_token',
+                expect.any(Number),
+                { ...labels, outcome: 'success' },
+            ]);
+        });
+    });
+});
+
+describe('createEmbeddingCostMiddleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('estimates the cost from the embedded tokens and input pricing', async () => {
+        // Given -- 2M embedded tokens priced at $0.02/M
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        const middleware = createEmbeddingCostMiddleware({
+            modelRef: 'openrouter/openai/text-embedding-3-small',
+            pricing: { input: 0.02 },
+        });
+        const doEmbed = vi.fn().mockResolvedValue({
+            embeddings: [[0.1, 0.2]],
+            usage: { tokens: 2_000_000 },
+            warnings: [],
+        });
+
+        // When
+        await middleware.wrapEmbed?.({
+            doEmbed,
+            params: { values: ['hello'] } as never,
+            model: createMockModel() as never,
+        });
+
+        // Then
+        expect(span.setAttribute).toHaveBeenCalledWith(
+            'gen_ai.request.model',
+            'openrouter/openai/text-embedding-3-small',
+        );
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.04);
+    });
+
+    test('never throws when enrichment itself fails', async () => {
+        // Given -- a span whose setAttribute throws
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue({
+            setAttribute: throwTelemetryError,
+        } as never);
+
+        const middleware = createEmbeddingCostMiddleware({ modelRef: 'openrouter/embedder' });
+        const result = { embeddings: [[0.1]], warnings: [] };
+
+        // When
+        const embedded = await middleware.wrapEmbed?.({
+            doEmbed: vi.fn().mockResolvedValue(result),
+            params: { values: ['hello'] } as never,
+            model: createMockModel() as never,
+        });
+
+        // Then -- the embedding result is still returned
+        expect(embedded).toBe(result);
+    });
+});
+
+describe('createImageCostMiddleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('prices each generated image', async () => {
+        // Given -- two images at $0.04 each
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        const middleware = createImageCostMiddleware({
+            modelRef: 'openai/gpt-image-1',
+            pricing: { perImage: 0.04 },
+        });
+        const doGenerate = vi.fn().mockResolvedValue({
+            images: ['aGVsbG8=', 'd29ybGQ='],
+            response: { headers: {}, modelId: 'gpt-image-1', timestamp: new Date() },
+            warnings: [],
+        });
+
+        // When
+        await middleware.wrapGenerate?.({
+            doGenerate,
+            params: {} as never,
+            model: createMockModel() as never,
+        });
+
+        // Then
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.08);
+    });
+});
+
+describe('createTranscriptionCostModel', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    function createMockTranscriptionModel(durationInSeconds: number | undefined) {
+        return {
+            modelId: 'whisper-1',
+            provider: 'openai',
+            specificationVersion: 'v4' as const,
+            doGenerate: vi.fn().mockResolvedValue({
+                durationInSeconds,
+                segments: [],
+                text: 'hello',
+                warnings: [],
+            }),
+        };
+    }
+
+    test('prices the transcribed audio per second', async () => {
+        // Given -- two minutes of audio at $0.0001 per second
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        const model = createTranscriptionCostModel({
+            model: createMockTranscriptionModel(120) as never,
+            modelRef: 'openai/whisper-1',
+            pricing: { perSecond: 0.0001 },
+        });
+
+        // When
+        const result = await model.doGenerate({} as never);
+
+        // Then
+        expect(result.text).toBe('hello');
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.request.model', 'openai/whisper-1');
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.cost', 0.012);
+    });
+
+    test('sets only the model attribute when the provider reports no duration', async () => {
+        // Given
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        const model = createTranscriptionCostModel({
+            model: createMockTranscriptionModel(undefined) as never,
+            modelRef: 'openai/whisper-1',
+            pricing: { perSecond: 0.0001 },
+        });
+
+        // When
+        await model.doGenerate({} as never);
+
+        // Then
+        expect(span.setAttribute).toHaveBeenCalledTimes(1);
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.request.model', 'openai/whisper-1');
     });
 });
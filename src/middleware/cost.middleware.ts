@@ -1,65 +1,358 @@
-import type { LanguageModelV4StreamPart, LanguageModelV4Usage } from '@ai-sdk/provider';
+import type {
+    LanguageModelV4StreamPart,
+    LanguageModelV4Usage,
+    TranscriptionModelV4,
+    TranscriptionModelV4CallOptions,
+} from '@ai-sdk/provider';
 import { trace } from '@opentelemetry/api';
-import type { LanguageModelMiddleware } from 'ai';
+import type {
+    EmbeddingModelMiddleware,
+    ImageModelMiddleware,
+    LanguageModelMiddleware,
+    TranscriptionModel,
+} from 'ai';
+
+import { labelsOf, recordCallMetrics } from '../metrics/ai-metrics.js';
 
 const COST_ATTRIBUTE = 'gen_ai.usage.cost';
+const COST_SOURCE_ATTRIBUTE = 'gen_ai.usage.cost_source';
 const MODEL_ATTRIBUTE = 'gen_ai.request.model';
 
-interface OpenRouterCostMetadata {
-    openrouter?: {
-        usage?: {
-            cost?: number;
-        };
+/** What a cost extractor gets to read the cost of a call from */
+interface CostResponse {
+    providerMetadata?: Record<string, unknown>;
+    /** HTTP response headers, lowercased, when the provider exposes them */
+    headers?: Record<string, string | undefined>;
+}
+
+/**
+ * Reads the USD cost a provider or proxy reported for a call, returning
+ * `undefined` when the response carries none
+ */
+type CostExtractor = (response: CostResponse) => number | undefined;
+
+/**
+ * Creates a cost extractor reading the number at `path` in the provider
+ * metadata, e.g. `['litellm', 'cost']` for `providerMetadata.litellm.cost`
+ */
+export function createMetadataCostExtractor(path: string[]): CostExtractor {
+    return ({ providerMetadata }) => {
+        let value: unknown = providerMetadata;
+        for (const key of path) {
+            value = (value as Record<string, unknown> | undefined)?.[key];
+        }
+        return typeof value === 'number' ? value : undefined;
+    };
+}
+
+/** Creates a cost extractor reading a numeric response header, e.g. `'x-litellm-response-cost'` */
+export function createHeaderCostExtractor(header: string): CostExtractor {
+    const name = header.toLowerCase();
+    return ({ headers }) => {
+        const value = headers?.[name];
+        return value === undefined || value.trim() === '' ? undefined : Number(value);
     };
 }
 
-interface CostPricing {
+/** OpenRouter's actual cost, `providerMetadata.openrouter.usage.cost` */
+export const openRouterCostExtractor = createMetadataCostExtractor(['openrouter', 'usage', 'cost']);
+
+/** The cost LiteLLM proxies report in their `x-litellm-response-cost` header */
+export const liteLlmCostExtractor = createHeaderCostExtractor('x-litellm-response-cost');
+
+const DEFAULT_COST_EXTRACTORS: CostExtractor[] = [openRouterCostExtractor, liteLlmCostExtractor];
+
+interface TokenRates {
     /** USD per million input tokens */
+    input?: number;
+    /** USD per million output tokens (embedding models have none) */
+    output?: number;
+    /** USD per million input tokens read from the provider's prompt cache (default: `input`) */
+    cacheRead?: number;
+    /** USD per million input tokens written to the provider's prompt cache (default: `input`) */
+    cacheWrite?: number;
+    /** USD per million reasoning tokens (default: `output`) */
+    reasoning?: number;
+}
+
+/**
+ * Rates for long prompts: every token of a call whose prompt exceeds
+ * `aboveInputTokens` is priced at these rates, unset ones falling back to the
+ * base rates
+ */
+interface PricingTier extends TokenRates {
+    aboveInputTokens: number;
+}
+
+interface CostPricing extends TokenRates {
+    /** Long-context rates, e.g. `[{ aboveInputTokens: 200_000, input: 2.5, output: 15 }]` */
+    tiers?: PricingTier[];
+    /** USD per call, on top of the token costs */
+    perRequest?: number;
+    /** USD per generated image, for image models */
+    perImage?: number;
+    /** USD per second of transcribed audio, for transcription models */
+    perSecond?: number;
+}
+
+/**
+ * Token counts of a call. `input` and `output` are totals: `cacheRead` and
+ * `cacheWrite` are part of `input`, `reasoning` part of `output`.
+ */
+interface TokenCounts {
     input: number;
-    /** USD per million output tokens */
     output: number;
+    cacheRead: number;
+    cacheWrite: number;
+    reasoning: number;
 }
 
-function resolveCost(
-    providerMetadata: Record<string, unknown> | undefined,
-    usage: LanguageModelV4Usage | undefined,
-    pricing: CostPricing | undefined,
-): number | undefined {
-    const actualCost = (providerMetadata as OpenRouterCostMetadata | undefined)?.openrouter?.usage
-        ?.cost;
-    if (typeof actualCost === 'number' && actualCost > 0) {
-        return actualCost;
-    }
+// Stream parts carrying the first output of a call, for its time to first token.
+const FIRST_TOKEN_PART_TYPES = new Set<LanguageModelV4StreamPart['type']>([
+    'reasoning-delta',
+    'text-delta',
+    'tool-call',
+    'tool-input-delta',
+]);
 
-    if (pricing) {
-        const inputTokens = usage?.inputTokens?.total ?? 0;
-        const outputTokens = usage?.outputTokens?.total ?? 0;
-        return (
-            (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output
+const NO_TOKENS: TokenCounts = { cacheRead: 0, cacheWrite: 0, input: 0, output: 0, reasoning: 0 };
+
+/** USD cost of each part of a call, when estimated from `pricing` */
+interface CostBreakdown {
+    input: number;
+    output: number;
+    cacheRead: number;
+    cacheWrite: number;
+    reasoning: number;
+    request: number;
+}
+
+const BREAKDOWN_ATTRIBUTES: Record<keyof CostBreakdown, string> = {
+    cacheRead: 'gen_ai.usage.cost.cache_read',
+    cacheWrite: 'gen_ai.usage.cost.cache_write',
+    input: 'gen_ai.usage.cost.input',
+    output: 'gen_ai.usage.cost.output',
+    reasoning: 'gen_ai.usage.cost.reasoning',
+    request: 'gen_ai.usage.cost.request',
+};
+
+/** Where a cost comes from: reported by the provider or a proxy, or computed from `pricing` */
+type CostSource = 'estimated' | 'reported';
+
+interface ResolvedCost {
+    total: number;
+    source: CostSource;
+    /** Absent when the cost was reported by the provider or priced per unit */
+    breakdown?: CostBreakdown;
+}
+
+function countTokens(usage: LanguageModelV4Usage | undefined): TokenCounts {
+    return {
+        cacheRead: usage?.inputTokens?.cacheRead ?? 0,
+        cacheWrite: usage?.inputTokens?.cacheWrite ?? 0,
+        input: usage?.inputTokens?.total ?? 0,
+        output: usage?.outputTokens?.total ?? 0,
+        reasoning: usage?.outputTokens?.reasoning ?? 0,
+    };
+}
+
+/** The base rates of `pricing`, overridden by the highest tier the prompt exceeds */
+function ratesFor(pricing: CostPricing, inputTokens: number): TokenRates {
+    const tier = pricing.tiers
+        ?.filter((candidate) => inputTokens > candidate.aboveInputTokens)
+        .reduce<PricingTier | undefined>(
+            (highest, candidate) =>
+                highest && highest.aboveInputTokens >= candidate.aboveInputTokens
+                    ? highest
+                    : candidate,
+            undefined,
         );
-    }
+    return { ...pricing, ...tier };
+}
+
+function estimateCost(tokens: TokenCounts, pricing: CostPricing): ResolvedCost {
+    const rates = ratesFor(pricing, tokens.input);
+    const priced = (count: number, perMillion: number | undefined) =>
+        (Math.max(count, 0) / 1_000_000) * (perMillion ?? 0);
 
+    const breakdown: CostBreakdown = {
+        cacheRead: priced(tokens.cacheRead, rates.cacheRead ?? rates.input),
+        cacheWrite: priced(tokens.cacheWrite, rates.cacheWrite ?? rates.input),
+        input: priced(tokens.input - tokens.cacheRead - tokens.cacheWrite, rates.input),
+        output: priced(tokens.output - tokens.reasoning, rates.output),
+        reasoning: priced(tokens.reasoning, rates.reasoning ?? rates.output),
+        request: pricing.perRequest ?? 0,
+    };
+    const total = Object.values(breakdown).reduce((sum, part) => sum + part, 0);
+    return { breakdown, source: 'estimated', total };
+}
+
+/**
+ * The first positive cost reported by `extractors`. A zero cost is not
+ * trusted: free-tier responses report one even when the model has a price.
+ */
+function reportedCost(
+    extractors: CostExtractor[],
+    response: CostResponse,
+): ResolvedCost | undefined {
+    for (const extract of extractors) {
+        const cost = extract(response);
+        if (cost !== undefined && Number.isFinite(cost) && cost > 0) {
+            return { source: 'reported', total: cost };
+        }
+    }
     return undefined;
 }
 
-function recordGeneration(modelRef: string, cost: number | undefined): void {
+function resolveCost(
+    extractors: CostExtractor[],
+    response: CostResponse,
+    tokens: TokenCounts,
+    pricing: CostPricing | undefined,
+): ResolvedCost | undefined {
+    return (
+        reportedCost(extractors, response) ?? (pricing ? estimateCost(tokens, pricing) : undefined)
+    );
+}
+
+function recordGeneration(modelRef: string, cost: ResolvedCost | undefined): void {
     const span = trace.getActiveSpan();
     if (!span) {
         return;
     }
     span.setAttribute(MODEL_ATTRIBUTE, modelRef);
-    if (cost !== undefined) {
-        span.setAttribute(COST_ATTRIBUTE, cost);
+    if (cost === undefined) {
+        return;
     }
+    span.setAttribute(COST_ATTRIBUTE, cost.total);
+    span.setAttribute(COST_SOURCE_ATTRIBUTE, cost.source);
+    if (cost.breakdown) {
+        for (const [part, attribute] of Object.entries(BREAKDOWN_ATTRIBUTES)) {
+            span.setAttribute(attribute, cost.breakdown[part as keyof CostBreakdown]);
+        }
+    }
+}
+
+/** What one model call consumed, as reported to `onUsage` */
+interface CallUsage {
+    modelRef: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Resolved USD cost, `undefined` when it could not be determined */
+    costUsd: number | undefined;
+    /** The call failed: it consumed nothing that could be counted */
+    error: boolean;
+}
+
+/**
+ * Reports each call to the span, the metrics and `onUsage`. `start` begins
+ * timing a call; then `record` reports it completed, `fail` failed, and
+ * `track` runs it, reporting it if it rejects.
+ */
+function createReporter(options: CostMiddlewareOptions) {
+    const { agent, modelRef, onUsage } = options;
+    const labels = labelsOf(modelRef, agent);
+
+    function notify(usage: CallUsage): void {
+        try {
+            onUsage?.(usage);
+        } catch {
+            // Best-effort: a failing usage hook must never break generation.
+        }
+    }
+
+    return {
+        start() {
+            const startedAt = Date.now();
+            let firstTokenAt: number | undefined;
+
+            function fail(): void {
+                recordCallMetrics(labels, {
+                    costUsd: undefined,
+                    durationMs: Date.now() - startedAt,
+                    inputTokens: 0,
+                    outcome: 'error',
+                    outputTokens: 0,
+                });
+                notify({
+                    costUsd: undefined,
+                    error: true,
+                    inputTokens: 0,
+                    modelRef,
+                    outputTokens: 0,
+                });
+            }
+
+            return {
+                fail,
+
+                /** Marks the first content part of a stream */
+                firstToken(): void {
+                    firstTokenAt ??= Date.now();
+                },
+
+                async track<T>(call: () => PromiseLike<T>): Promise<T> {
+                    try {
+                        return await call();
+                    } catch (error) {
+                        fail();
+                        throw error;
+                    }
+                },
+
+                record(tokens: TokenCounts, resolve: () => ResolvedCost | undefined): void {
+                    let costUsd: number | undefined;
+                    try {
+                        const cost = resolve();
+                        costUsd = cost?.total;
+                        recordGeneration(modelRef, cost);
+                    } catch {
+                        // Best-effort: telemetry enrichment must never break generation.
+                    }
+                    recordCallMetrics(labels, {
+                        costUsd,
+                        durationMs: Date.now() - startedAt,
+                        inputTokens: tokens.input,
+                        outcome: 'success',
+                        outputTokens: tokens.output,
+                        timeToFirstTokenMs:
+                            firstTokenAt === undefined ? undefined : firstTokenAt - startedAt,
+                    });
+                    notify({
+                        costUsd,
+                        error: false,
+                        inputTokens: tokens.input,
+                        modelRef,
+                        outputTokens: tokens.output,
+                    });
+                },
+            };
+        },
+    };
 }
 
-export type { CostPricing };
+export type { CallUsage, CostExtractor, CostPricing, CostResponse, PricingTier };
 
 export interface CostMiddlewareOptions {
     /** Full model reference, e.g. `'openrouter/google/gemini-2.5-flash-lite'` */
     modelRef: string;
+    /** Agent the calls are made for, used as the `agent` metric label */
+    agent?: string;
     /** Fallback USD-per-million-token pricing, used when the provider doesn't report actual cost */
     pricing?: CostPricing;
+    /** Model running locally (e.g. Ollama): the cost is always 0, whatever the pricing */
+    free?: boolean;
+    /**
+     * Read the cost reported by the provider or a proxy, tried in order
+     * before falling back to `pricing` (default: `[openRouterCostExtractor,
+     * liteLlmCostExtractor]`)
+     */
+    costExtractors?: CostExtractor[];
+    /**
+     * Called after every call, failed ones included, with its token counts
+     * and resolved cost — e.g. to charge a budget or feed a usage ledger
+     */
+    onUsage?: (usage: CallUsage) => void;
 }
 
 /**
@@ -68,10 +361,26 @@ export interface CostMiddlewareOptions {
  * (`gen_ai.usage.cost`) of a generation.
  *
  * Resolution order:
- * 1. Actual cost reported by the provider (currently: OpenRouter's
- *    `providerMetadata.openrouter.usage.cost`).
+ * 1. Actual cost reported by the provider or a proxy, as read by the first
+ *    of `costExtractors` returning a positive number — by default OpenRouter's
+ *    `providerMetadata.openrouter.usage.cost`, then LiteLLM's
+ *    `x-litellm-response-cost` header.
  * 2. Estimated cost from `pricing` (USD per million input/output tokens),
- *    computed from the reported token usage.
+ *    computed from the reported token usage. Cache reads and writes are
+ *    priced at `cacheRead` / `cacheWrite` and reasoning tokens at
+ *    `reasoning` when set; `perRequest` is added once per call. Each part is
+ *    recorded as a `gen_ai.usage.cost.<part>` attribute (`input`, `output`,
+ *    `cache_read`, `cache_write`, `reasoning`, `request`).
+ *
+ * With `free`, both are skipped and the cost is recorded as 0.
+ * `gen_ai.usage.cost_source` records whether the cost was `reported` or
+ * `estimated`.
+ *
+ * Every call is also recorded as OpenTelemetry metrics — `ai.call.duration`,
+ * `ai.call.time_to_first_token` (streams), `ai.tokens`, `ai.cost` and
+ * `ai.errors` — labeled with the `provider` and `model` of `modelRef`, the
+ * `agent` and the call's `outcome`. A stream cancelled before its `finish`
+ * part, e.g. abandoned by a mid-stream fallback, counts as failed.
  *
  * The `gen_ai.usage.cost` attribute is set on `trace.getActiveSpan()` because
  * that's the attribute Langfuse's OTel ingestion prioritizes over its own
@@ -93,64 +402,284 @@ export interface CostMiddlewareOptions {
  * ```
  */
 export function createCostMiddleware(options: CostMiddlewareOptions): LanguageModelMiddleware {
-    const { modelRef, pricing } = options;
+    const { costExtractors = DEFAULT_COST_EXTRACTORS, free = false, pricing } = options;
+    const reporter = createReporter(options);
+
+    function cost(response: CostResponse, tokens: TokenCounts): ResolvedCost | undefined {
+        return free
+            ? { source: 'estimated', total: 0 }
+            : resolveCost(costExtractors, response, tokens, pricing);
+    }
 
     return {
         specificationVersion: 'v4',
         wrapGenerate: async ({ doGenerate }) => {
-            const result = await doGenerate();
+            const call = reporter.start();
+            const result = await call.track(doGenerate);
 
-            try {
-                recordGeneration(
-                    modelRef,
-                    resolveCost(
-                        result.providerMetadata as Record<string, unknown> | undefined,
-                        result.usage,
-                        pricing,
-                    ),
-                );
-            } catch {
-                // Best-effort: telemetry enrichment must never break generation.
-            }
+            const tokens = countTokens(result.usage);
+            call.record(tokens, () =>
+                cost(
+                    {
+                        headers: result.response?.headers,
+                        providerMetadata: result.providerMetadata,
+                    },
+                    tokens,
+                ),
+            );
 
             return result;
         },
 
         wrapStream: async ({ doStream }) => {
-            const result = await doStream();
+            const call = reporter.start();
+            const result = await call.track(doStream);
 
             let finishUsage: LanguageModelV4Usage | undefined;
-            let finishProviderMetadata: Record<string, unknown> | undefined;
-
-            const transformStream = new TransformStream<
-                LanguageModelV4StreamPart,
-                LanguageModelV4StreamPart
-            >({
-                transform(chunk, controller) {
-                    if (chunk.type === 'finish') {
-                        finishUsage = chunk.usage;
-                        finishProviderMetadata = chunk.providerMetadata as
-                            | Record<string, unknown>
-                            | undefined;
-                    }
-                    controller.enqueue(chunk);
-                },
-                flush() {
-                    try {
-                        recordGeneration(
-                            modelRef,
-                            resolveCost(finishProviderMetadata, finishUsage, pricing),
-                        );
-                    } catch {
-                        // Best-effort: telemetry enrichment must never break generation.
-                    }
-                },
-            });
+            let finishProviderMetadata: CostResponse['providerMetadata'];
+            let failed = false;
+            let settled = false;
 
+            /** Reports the call once, whether the stream ended or was cancelled */
+            function settle(): void {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                if (failed && !finishUsage) {
+                    call.fail();
+                    return;
+                }
+                const tokens = countTokens(finishUsage);
+                call.record(tokens, () =>
+                    cost(
+                        {
+                            headers: result.response?.headers,
+                            providerMetadata: finishProviderMetadata,
+                        },
+                        tokens,
+                    ),
+                );
+            }
+
+            // Read by hand rather than piped through a transform, so a stream
+            // Cancelled or broken before its `finish` part — e.g. abandoned by
+            // A mid-stream fallback — is still reported, as a failed call.
+            const reader = result.stream.getReader();
             return {
                 ...result,
-                stream: result.stream.pipeThrough(transformStream),
+                stream: new ReadableStream<LanguageModelV4StreamPart>({
+                    async pull(controller) {
+                        let next: ReadableStreamReadResult<LanguageModelV4StreamPart>;
+                        try {
+                            next = await reader.read();
+                        } catch (error) {
+                            failed = true;
+                            settle();
+                            controller.error(error);
+                            return;
+                        }
+                        if (next.done) {
+                            settle();
+                            controller.close();
+                            return;
+                        }
+
+                        const chunk = next.value;
+                        if (FIRST_TOKEN_PART_TYPES.has(chunk.type)) {
+                            call.firstToken();
+                        }
+                        if (chunk.type === 'finish') {
+                            finishUsage = chunk.usage;
+                            finishProviderMetadata = chunk.providerMetadata;
+                        } else if (chunk.type === 'error') {
+                            failed = true;
+                        }
+                        controller.enqueue(chunk);
+                    },
+                    cancel(reason) {
+                        failed = true;
+                        settle();
+                        return reader.cancel(reason);
+                    },
+                }),
             };
         },
     };
 }
+
+/**
+ * Creates the embedding-model counterpart of `createCostMiddleware`: records
+ * `gen_ai.request.model` and `gen_ai.usage.cost` on the active span, from the
+ * cost reported through `costExtractors` or from `pricing.input` applied to
+ * the embedded tokens. Embeddings have no output tokens, so `pricing.output` is ignored.
+ *
+ * Never throws: all enrichment is best-effort.
+ *
+ * @example
+ * ```ts
+ * const model = wrapEmbeddingModel({
+ *   model: provider.embeddingModel('openai/text-embedding-3-small'),
+ *   middleware: createEmbeddingCostMiddleware({
+ *     modelRef: 'openrouter/openai/text-embedding-3-small',
+ *     pricing: { input: 0.02 },
+ *   }),
+ * });
+ * ```
+ */
+export function createEmbeddingCostMiddleware(
+    options: CostMiddlewareOptions,
+): EmbeddingModelMiddleware {
+    const { costExtractors = DEFAULT_COST_EXTRACTORS, free = false, pricing } = options;
+    const reporter = createReporter(options);
+
+    return {
+        specificationVersion: 'v4',
+        wrapEmbed: async ({ doEmbed }) => {
+            const call = reporter.start();
+            const result = await call.track(doEmbed);
+
+            const tokens = { ...NO_TOKENS, input: result.usage?.tokens ?? 0 };
+            call.record(tokens, () =>
+                free
+                    ? { source: 'estimated', total: 0 }
+                    : resolveCost(
+                          costExtractors,
+                          {
+                              headers: result.response?.headers,
+                              providerMetadata: result.providerMetadata,
+                          },
+                          tokens,
+                          pricing,
+                      ),
+            );
+
+            return result;
+        },
+    };
+}
+
+/**
+ * Creates the image-model counterpart of `createCostMiddleware`: records
+ * `gen_ai.request.model` and `gen_ai.usage.cost` on the active span, the cost
+ * being the one reported through `costExtractors`, or else the number of
+ * generated images times `pricing.perImage`.
+ *
+ * Never throws: all enrichment is best-effort.
+ *
+ * @example
+ * ```ts
+ * const model = wrapImageModel({
+ *   model: provider.imageModel('gpt-image-1'),
+ *   middleware: createImageCostMiddleware({
+ *     modelRef: 'openai/gpt-image-1',
+ *     pricing: { perImage: 0.04 },
+ *   }),
+ * });
+ * ```
+ */
+export function createImageCostMiddleware(options: CostMiddlewareOptions): ImageModelMiddleware {
+    const { costExtractors = DEFAULT_COST_EXTRACTORS, free = false, pricing } = options;
+    const reporter = createReporter(options);
+
+    function cost(response: CostResponse, images: number): ResolvedCost | undefined {
+        if (free) {
+            return { source: 'estimated', total: 0 };
+        }
+        return (
+            reportedCost(costExtractors, response) ??
+            (pricing?.perImage === undefined
+                ? undefined
+                : { source: 'estimated', total: images * pricing.perImage })
+        );
+    }
+
+    return {
+        specificationVersion: 'v4',
+        wrapGenerate: async ({ doGenerate }) => {
+            const call = reporter.start();
+            const result = await call.track(doGenerate);
+
+            call.record(NO_TOKENS, () =>
+                cost(
+                    {
+                        headers: result.response?.headers,
+                        providerMetadata: result.providerMetadata,
+                    },
+                    result.images.length,
+                ),
+            );
+
+            return result;
+        },
+    };
+}
+
+export interface TranscriptionCostModelOptions extends CostMiddlewareOptions {
+    model: TranscriptionModel;
+}
+
+/**
+ * Creates a `TranscriptionModelV4` recording `gen_ai.request.model` and
+ * `gen_ai.usage.cost` on the active span, the cost being the one reported
+ * through `costExtractors`, or else the audio duration reported by the
+ * provider times `pricing.perSecond`. A model wrapper rather
+ * than a middleware: AI SDK has no transcription middleware.
+ *
+ * Streamed transcriptions (`doStream`) pass through without cost recording.
+ * Never throws: all enrichment is best-effort.
+ *
+ * @example
+ * ```ts
+ * const model = createTranscriptionCostModel({
+ *   model: provider.transcriptionModel('whisper-1'),
+ *   modelRef: 'openai/whisper-1',
+ *   pricing: { perSecond: 0.0001 },
+ * });
+ * ```
+ */
+export function createTranscriptionCostModel(
+    options: TranscriptionCostModelOptions,
+): TranscriptionModelV4 {
+    const { costExtractors = DEFAULT_COST_EXTRACTORS, free = false, pricing } = options;
+    const inner = options.model as TranscriptionModelV4;
+    const reporter = createReporter(options);
+
+    function cost(
+        response: CostResponse,
+        durationInSeconds: number | undefined,
+    ): ResolvedCost | undefined {
+        if (free) {
+            return { source: 'estimated', total: 0 };
+        }
+        const reported = reportedCost(costExtractors, response);
+        if (reported || pricing?.perSecond === undefined || durationInSeconds === undefined) {
+            return reported;
+        }
+        return { source: 'estimated', total: durationInSeconds * pricing.perSecond };
+    }
+
+    return {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        ...(inner.doStream && { doStream: inner.doStream.bind(inner) }),
+
+        async doGenerate(callOptions: TranscriptionModelV4CallOptions) {
+            const call = reporter.start();
+            const result = await call.track(() => inner.doGenerate(callOptions));
+
+            call.record(NO_TOKENS, () =>
+                cost(
+                    {
+                        headers: result.response?.headers,
+                        providerMetadata: result.providerMetadata,
+                    },
+                    result.durationInSeconds,
+                ),
+            );
+
+            return result;
+        },
+    };
+}
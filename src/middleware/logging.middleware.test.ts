@@ -1,6 +1,6 @@
-import { describe, expect, test, vi } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 
-import { createLoggingMiddleware } from './logging.middleware.js';
+import { createEmbeddingLoggingMiddleware, createLoggingMiddleware } from './logging.middleware.js';
 
 function createMockLogger() {
     return {
@@ -33,8 +33,35 @@ function createMockGenerateResult() {
     };
 }
 
+function streamOf(parts: unknown[]) {
+    return {
+        stream: new ReadableStream({
+            start(controller) {
+                for (const part of parts) {
+                    controller.enqueue(part);
+                }
+                controller.close();
+            },
+        }),
+    };
+}
+
+async function drain(stream: ReadableStream | undefined): Promise<void> {
+    const reader = stream?.getReader();
+    for (;;) {
+        const chunk = await reader?.read();
+        if (!chunk || chunk.done) {
+            return;
+        }
+    }
+}
+
 describe('createLoggingMiddleware', () => {
     describe('wrapGenerate', () => {
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
         test('logs start and completion on success', async () => {
             // Given -- a logging middleware with a mock logger and successful generation
             const logger = createMockLogger();
@@ -163,5 +190,271 @@ describe('createLoggingMiddleware', () => {
             const completedCall = logger.debug.mock.calls[1];
             expect(completedCall[1]).not.toHaveProperty('usage');
         });
+
+        test('logs the content of a sample of calls only', async () => {
+            // Given -- a 10% sample rate, and a call drawn outside of it
+            vi.spyOn(Math, 'random').mockReturnValue(0.5);
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({
+                logger,
+                include: { content: { sampleRate: 0.1 } },
+            });
+
+            await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult()),
+                doStream: vi.fn(),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- the call is logged, without its content
+            expect(logger.debug.mock.calls[1][1]).not.toHaveProperty('content');
+        });
+
+        test('truncates long content, with its length and the hash of the full text', async () => {
+            // Given
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({
+                logger,
+                include: { content: { maxLength: 5 } },
+            });
+
+            await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult()),
+                doStream: vi.fn(),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- the SHA-256 of 'Hello world'
+            expect(logger.debug).toHaveBeenNthCalledWith(
+                2,
+                'ai.generate.complete',
+                expect.objectContaining({
+                    content: 'Hello…',
+                    contentHash: '64ec88ca00b268e5ba1a35678a1b5316d212f4f366b2477232534a8aeca37f3c',
+                    contentLength: 11,
+                }),
+            );
+        });
+
+        test('redacts params and content before they reach the logger', async () => {
+            // Given -- a prompt and a completion carrying user data
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({
+                logger,
+                include: { content: true, params: true },
+                redaction: { paths: ['params.headers'] },
+            });
+            const doGenerate = vi.fn().mockResolvedValue({
+                ...createMockGenerateResult(),
+                content: [{ type: 'text', text: 'Sure, I emailed jane@example.com' }],
+            });
+
+            await middleware.wrapGenerate?.({
+                doGenerate,
+                doStream: vi.fn(),
+                params: {
+                    headers: { 'x-user-id': 'u-42' },
+                    prompt: [{ content: 'Email jane@example.com', role: 'user' }],
+                } as never,
+                model: createMockModel() as never,
+            });
+
+            // Then -- only redacted values are logged, the model got the raw ones
+            expect(logger.debug).toHaveBeenNthCalledWith(1, 'ai.generate.start', {
+                model: 'test-model',
+                params: {
+                    headers: '[REDACTED]',
+                    prompt: [{ content: 'Email [REDACTED:email]', role: 'user' }],
+                },
+            });
+            expect(logger.debug).toHaveBeenNthCalledWith(
+                2,
+                'ai.generate.complete',
+                expect.objectContaining({ content: 'Sure, I emailed [REDACTED:email]' }),
+            );
+        });
+    });
+
+    describe('wrapStream', () => {
+        const usage = { inputTokens: { total: 10 }, outputTokens: { total: 40 } };
+        const finishReason = { raw: 'tool_calls', unified: 'tool-calls' };
+
+        test('logs timing, throughput, usage, finish reason and tool calls once consumed', async () => {
+            // Given -- a stream whose first token arrives after 100ms, and its finish 400ms later
+            vi.useFakeTimers({ now: 0 });
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({ logger, include: { content: true } });
+            const timeline: Array<[delayMs: number, part: unknown]> = [
+                [0, { type: 'stream-start', warnings: [] }],
+                [100, { delta: 'Hel', id: 't1', type: 'text-delta' }],
+                [0, { delta: 'lo', id: 't1', type: 'text-delta' }],
+                [200, { input: '{}', toolCallId: 'c1', toolName: 'search', type: 'tool-call' }],
+                [100, { input: '{}', toolCallId: 'c2', toolName: 'search', type: 'tool-call' }],
+                [100, { finishReason, type: 'finish', usage }],
+            ];
+            const stream = new ReadableStream({
+                pull(controller) {
+                    const [delayMs, part] = timeline.shift() ?? [];
+                    if (delayMs === undefined) {
+                        controller.close();
+                        return;
+                    }
+                    vi.advanceTimersByTime(delayMs);
+                    controller.enqueue(part);
+                },
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi.fn().mockResolvedValue({ stream }),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+            await drain(result?.stream);
+            vi.useRealTimers();
+
+            // Then -- 40 output tokens over the 400ms since the first token
+            expect(logger.debug).toHaveBeenLastCalledWith('ai.stream.complete', {
+                content: 'Hello',
+                durationMs: 500,
+                finishReason,
+                model: 'test-model',
+                timeToFirstTokenMs: 100,
+                tokensPerSecond: 100,
+                toolCalls: 2,
+                usage,
+            });
+        });
+
+        test('logs an error part flowing through the stream', async () => {
+            // Given -- a stream that opens fine, then fails mid-way
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({ logger });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi.fn().mockResolvedValue(
+                    streamOf([
+                        { delta: 'Hi', id: 't1', type: 'text-delta' },
+                        { error: new Error('connection reset'), type: 'error' },
+                    ]),
+                ),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+            await drain(result?.stream);
+
+            // Then -- no usage nor finish reason: the stream never finished
+            expect(logger.error).toHaveBeenCalledWith('ai.stream.error', {
+                durationMs: expect.any(Number),
+                error: 'connection reset',
+                model: 'test-model',
+            });
+            expect(logger.debug).toHaveBeenLastCalledWith(
+                'ai.stream.complete',
+                expect.objectContaining({ finishReason: undefined, toolCalls: 0 }),
+            );
+        });
+
+        test('logs the partial content of a failing stream, even outside of the sample', async () => {
+            // Given -- content sampling that never picks a call
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({
+                logger,
+                include: { content: { sampleRate: 0 } },
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi.fn().mockResolvedValue(
+                    streamOf([
+                        { delta: 'Partial', id: 't1', type: 'text-delta' },
+                        { error: new Error('connection reset'), type: 'error' },
+                    ]),
+                ),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+            await drain(result?.stream);
+
+            // Then
+            expect(logger.error).toHaveBeenCalledWith(
+                'ai.stream.error',
+                expect.objectContaining({ content: 'Partial' }),
+            );
+            expect(logger.debug.mock.calls.at(-1)?.[1]).not.toHaveProperty('content');
+        });
+
+        test('logs an error when the stream fails to open', async () => {
+            const logger = createMockLogger();
+            const middleware = createLoggingMiddleware({ logger });
+
+            const opening = middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi.fn().mockRejectedValue(new Error('API error')),
+                params: { prompt: [] } as never,
+                model: createMockModel() as never,
+            });
+
+            await expect(opening).rejects.toThrow('API error');
+            expect(logger.error).toHaveBeenCalledWith(
+                'ai.stream.error',
+                expect.objectContaining({ error: 'API error', model: 'test-model' }),
+            );
+        });
+    });
+});
+
+describe('createEmbeddingLoggingMiddleware', () => {
+    test('logs the number of values, timing and usage, never the values', async () => {
+        // Given
+        const logger = createMockLogger();
+        const middleware = createEmbeddingLoggingMiddleware({ logger });
+        const result = { embeddings: [[0.1], [0.2]], usage: { tokens: 12 }, warnings: [] };
+
+        // When
+        await middleware.wrapEmbed?.({
+            doEmbed: vi.fn().mockResolvedValue(result),
+            params: { values: ['secret one', 'secret two'] } as never,
+            model: createMockModel('embedder') as never,
+        });
+
+        // Then
+        expect(logger.debug).toHaveBeenNthCalledWith(1, 'ai.embed.start', {
+            model: 'embedder',
+            values: 2,
+        });
+        expect(logger.debug).toHaveBeenNthCalledWith(2, 'ai.embed.complete', {
+            durationMs: expect.any(Number),
+            model: 'embedder',
+            usage: { tokens: 12 },
+            values: 2,
+        });
+        expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('secret');
+    });
+
+    test('logs and rethrows embedding errors', async () => {
+        // Given
+        const logger = createMockLogger();
+        const middleware = createEmbeddingLoggingMiddleware({ logger });
+
+        // When
+        const embedding = middleware.wrapEmbed?.({
+            doEmbed: vi.fn().mockRejectedValue(new Error('quota exceeded')),
+            params: { values: ['hello'] } as never,
+            model: createMockModel('embedder') as never,
+        });
+
+        // Then
+        await expect(embedding).rejects.toThrow('quota exceeded');
+        expect(logger.error).toHaveBeenCalledWith(
+            'ai.embed.error',
+            expect.objectContaining({ error: 'quota exceeded', model: 'embedder' }),
+        );
     });
 });
@@ -1,29 +1,100 @@
+import { createHash } from 'node:crypto';
+
 import type { LanguageModelV4StreamPart } from '@ai-sdk/provider';
 import type { LoggerPort } from '@jterrazz/telemetry';
-import type { LanguageModelMiddleware } from 'ai';
+import type { EmbeddingModelMiddleware, LanguageModelMiddleware } from 'ai';
+
+import { createRedactor, type RedactionOptions } from '../redaction/redaction.js';
+
+export interface ContentLoggingOptions {
+    /**
+     * Share of calls whose content is logged, from 0 to 1 (default: 1). The
+     * partial content of a stream failing mid-way is logged regardless.
+     */
+    sampleRate?: number;
+    /**
+     * Longer content is cut to this many characters, and logged with its
+     * full length and the SHA-256 hash of the full text
+     */
+    maxLength?: number;
+}
 
 export interface LoggingMiddlewareOptions {
     logger: LoggerPort;
     include?: {
         params?: boolean;
-        content?: boolean;
+        content?: boolean | ContentLoggingOptions;
         usage?: boolean;
     };
+    /**
+     * Masks sensitive data in every log entry before it reaches the logger,
+     * with paths relative to the entry (e.g. `'params.prompt.*.content'`)
+     */
+    redaction?: RedactionOptions;
+}
+
+// Stream parts carrying model output: the first one marks the time to first token.
+const FIRST_TOKEN_PART_TYPES = new Set<LanguageModelV4StreamPart['type']>([
+    'reasoning-delta',
+    'text-delta',
+    'tool-call',
+    'tool-input-delta',
+]);
+
+/** Content log fields: the text itself, or its start, length and hash beyond `maxLength` */
+function contentFields(content: string, maxLength: number | undefined) {
+    if (maxLength === undefined || content.length <= maxLength) {
+        return { content };
+    }
+    return {
+        content: `${content.slice(0, maxLength)}…`,
+        contentHash: createHash('sha256').update(content).digest('hex'),
+        contentLength: content.length,
+    };
+}
+
+/** Output tokens per second of generation, to one decimal */
+function tokensPerSecond(outputTokens: number | undefined, generationMs: number) {
+    if (outputTokens === undefined || generationMs <= 0) {
+        return undefined;
+    }
+    return Math.round((outputTokens / generationMs) * 10_000) / 10;
 }
 
 /**
  * Creates middleware that logs AI SDK requests and responses.
+ *
+ * Streams log `ai.stream.complete` once fully consumed, with the time to
+ * first token, output tokens per second, finish reason, usage and the number
+ * of tool calls. An `error` part flowing through the stream is logged as
+ * `ai.stream.error`, like a stream that fails to open.
+ *
+ * Params and content are raw prompts and completions: set `redaction` to mask
+ * user data before logging them in production, and sample or truncate content
+ * with `include.content.sampleRate` and `include.content.maxLength`.
  */
 export function createLoggingMiddleware(
     options: LoggingMiddlewareOptions,
 ): LanguageModelMiddleware {
-    const { logger, include = {} } = options;
-    const { params: includeParams, content: includeContent, usage: includeUsage = true } = include;
+    const { include = {}, redaction } = options;
+    const { params: includeParams, usage: includeUsage = true } = include;
+    const contentLogging = include.content === true ? {} : include.content || undefined;
+    const { maxLength, sampleRate = 1 } = contentLogging ?? {};
+    const redact = redaction && createRedactor(redaction);
+    const logger = {
+        debug: (message: string, data: Record<string, unknown>) =>
+            options.logger.debug(message, redact ? redact(data) : data),
+        error: (message: string, data: Record<string, unknown>) =>
+            options.logger.error(message, redact ? redact(data) : data),
+    };
+    // Decided once per call, when it starts.
+    const sampleContent = () => contentLogging !== undefined && Math.random() < sampleRate;
 
     return {
         specificationVersion: 'v4',
         wrapGenerate: async ({ doGenerate, params, model }) => {
             const startTime = Date.now();
+            const includeContent = sampleContent();
 
             logger.debug('ai.generate.start', {
                 model: model.modelId,
@@ -44,7 +115,7 @@ export function createLoggingMiddleware(
                     durationMs: Date.now() - startTime,
                     finishReason: result.finishReason,
                     ...(includeUsage && { usage: result.usage }),
-                    ...(includeContent && { content: textContent }),
+                    ...(includeContent && contentFields(textContent, maxLength)),
                 });
 
                 return result;
@@ -60,6 +131,7 @@ export function createLoggingMiddleware(
 
         wrapStream: async ({ doStream, params, model }) => {
             const startTime = Date.now();
+            const includeContent = sampleContent();
 
             logger.debug('ai.stream.start', {
                 model: model.modelId,
@@ -70,22 +142,57 @@ export function createLoggingMiddleware(
                 const result = await doStream();
 
                 const chunks: string[] = [];
+                let firstTokenTime: number | undefined;
+                let finish: Extract<LanguageModelV4StreamPart, { type: 'finish' }> | undefined;
+                let toolCalls = 0;
 
                 const transformStream = new TransformStream<
                     LanguageModelV4StreamPart,
                     LanguageModelV4StreamPart
                 >({
                     transform(chunk, controller) {
-                        if (includeContent && chunk.type === 'text-delta') {
+                        if (
+                            firstTokenTime === undefined &&
+                            FIRST_TOKEN_PART_TYPES.has(chunk.type)
+                        ) {
+                            firstTokenTime = Date.now();
+                        }
+                        if (chunk.type === 'text-delta' && contentLogging) {
                             chunks.push(chunk.delta);
+                        } else if (chunk.type === 'tool-call') {
+                            toolCalls++;
+                        } else if (chunk.type === 'finish') {
+                            finish = chunk;
+                        } else if (chunk.type === 'error') {
+                            logger.error('ai.stream.error', {
+                                model: model.modelId,
+                                durationMs: Date.now() - startTime,
+                                error:
+                                    chunk.error instanceof Error
+                                        ? chunk.error.message
+                                        : 'Unknown error',
+                                ...(contentLogging && contentFields(chunks.join(''), maxLength)),
+                            });
                         }
                         controller.enqueue(chunk);
                     },
                     flush() {
+                        const endTime = Date.now();
                         logger.debug('ai.stream.complete', {
                             model: model.modelId,
-                            durationMs: Date.now() - startTime,
-                            ...(includeContent && { content: chunks.join('') }),
+                            durationMs: endTime - startTime,
+                            timeToFirstTokenMs:
+                                firstTokenTime === undefined
+                                    ? undefined
+                                    : firstTokenTime - startTime,
+                            tokensPerSecond: tokensPerSecond(
+                                finish?.usage.outputTokens.total,
+                                endTime - (firstTokenTime ?? startTime),
+                            ),
+                            finishReason: finish?.finishReason,
+                            toolCalls,
+                            ...(includeUsage && { usage: finish?.usage }),
+                            ...(includeContent && contentFields(chunks.join(''), maxLength)),
                         });
                     },
                 });
@@ -106,3 +213,53 @@ export function createLoggingMiddleware(
         },
     };
 }
+
+export interface EmbeddingLoggingMiddlewareOptions {
+    logger: LoggerPort;
+    include?: {
+        usage?: boolean;
+    };
+}
+
+/**
+ * Creates middleware that logs AI SDK embedding calls: the number of values
+ * embedded, timing and token usage — never the values themselves.
+ */
+export function createEmbeddingLoggingMiddleware(
+    options: EmbeddingLoggingMiddlewareOptions,
+): EmbeddingModelMiddleware {
+    const { logger, include = {} } = options;
+    const { usage: includeUsage = true } = include;
+
+    return {
+        specificationVersion: 'v4',
+        wrapEmbed: async ({ doEmbed, params, model }) => {
+            const startTime = Date.now();
+
+            logger.debug('ai.embed.start', {
+                model: model.modelId,
+                values: params.values.length,
+            });
+
+            try {
+                const result = await doEmbed();
+
+                logger.debug('ai.embed.complete', {
+                    model: model.modelId,
+                    durationMs: Date.now() - startTime,
+                    values: params.values.length,
+                    ...(includeUsage && { usage: result.usage }),
+                });
+
+                return result;
+            } catch (error) {
+                logger.error('ai.embed.error', {
+                    model: model.modelId,
+                    durationMs: Date.now() - startTime,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                });
+                throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,327 @@
+import { trace } from '@opentelemetry/api';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import {
+    ContentModerationError,
+    createModerationMiddleware,
+    createWordlistModerator,
+} from './moderation.middleware.js';
+
+const moderate = createWordlistModerator({ profanity: ['darn', /\bh[e3]ck\b/i] });
+
+function createMockModel() {
+    return {
+        modelId: 'test-model',
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+    };
+}
+
+function createMockGenerateResult(text: string) {
+    return {
+        content: [{ text, type: 'text' as const }],
+        finishReason: { raw: 'stop', unified: 'stop' },
+        usage: { inputTokens: { total: 5 }, outputTokens: { total: 5 } },
+        warnings: [],
+    };
+}
+
+const FINISH = {
+    finishReason: { raw: 'stop', unified: 'stop' },
+    type: 'finish',
+    usage: { inputTokens: { total: 5 }, outputTokens: { total: 5 } },
+};
+
+function streamOf(parts: unknown[]) {
+    return {
+        stream: new ReadableStream({
+            start(controller) {
+                for (const part of parts) {
+                    controller.enqueue(part);
+                }
+                controller.close();
+            },
+        }),
+    };
+}
+
+async function collect(stream: ReadableStream | undefined): Promise<unknown[]> {
+    const parts: unknown[] = [];
+    const reader = stream?.getReader();
+    for (;;) {
+        const chunk = await reader?.read();
+        if (!chunk || chunk.done) {
+            return parts;
+        }
+        parts.push(chunk.value);
+    }
+}
+
+function textOf(parts: unknown[]): string {
+    return (parts as Array<{ delta?: string; type: string }>)
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => part.delta)
+        .join('');
+}
+
+describe('createWordlistModerator', () => {
+    test('flags whole words case-insensitively, and patterns as written', () => {
+        expect(moderate('Darn it, what the h3ck')).toEqual({
+            categories: ['profanity'],
+            flagged: true,
+            matches: ['Darn', 'h3ck'],
+        });
+        expect(moderate('Darnell checked the deck')).toEqual({
+            categories: [],
+            flagged: false,
+            matches: [],
+        });
+    });
+});
+
+describe('createModerationMiddleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('wrapGenerate', () => {
+        test('annotates a flagged response and records the verdict on the span', async () => {
+            // Given
+            const span = { setAttribute: vi.fn() };
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+            const middleware = createModerationMiddleware({ moderate });
+
+            // When
+            const result = await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult('Oh darn.')),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+
+            // Then
+            expect(result?.content).toEqual([{ text: 'Oh darn.', type: 'text' }]);
+            expect(result?.providerMetadata).toEqual({
+                moderation: { categories: ['profanity'], flagged: true },
+            });
+            expect(span.setAttribute).toHaveBeenCalledWith('ai.moderation.flagged', true);
+            expect(span.setAttribute).toHaveBeenCalledWith('ai.moderation.categories', [
+                'profanity',
+            ]);
+        });
+
+        test('redacts the matches of a flagged response', async () => {
+            const middleware = createModerationMiddleware({ action: 'redact', moderate });
+
+            const result = await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult('Oh darn, heck.')),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+
+            expect(result?.content).toEqual([{ text: 'Oh [REDACTED], [REDACTED].', type: 'text' }]);
+        });
+
+        test('redacts the whole text when an async moderator reports no matches', async () => {
+            // Given -- a model-based moderator, which can't point at passages
+            const middleware = createModerationMiddleware({
+                action: 'redact',
+                moderate: vi.fn().mockResolvedValue({ categories: ['toxicity'], flagged: true }),
+            });
+
+            const result = await middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult('You fool.')),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+
+            expect(result?.content).toEqual([{ text: '[REDACTED]', type: 'text' }]);
+        });
+
+        test('blocks a flagged response with a non-retryable ContentModerationError', async () => {
+            const middleware = createModerationMiddleware({ action: 'block', moderate });
+
+            const generation = middleware.wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult('Oh darn.')),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+
+            await expect(generation).rejects.toBeInstanceOf(ContentModerationError);
+            await expect(generation).rejects.toMatchObject({
+                categories: ['profanity'],
+                isRetryable: false,
+            });
+        });
+    });
+
+    describe('wrapStream', () => {
+        test('redacts words split across deltas, checking the text as it flows', async () => {
+            // Given -- checks every 8 characters, and a word cut in two deltas
+            const middleware = createModerationMiddleware({
+                action: 'redact',
+                moderate,
+                streamCheckChars: 8,
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { id: 't1', type: 'text-start' },
+                            { delta: 'Well, da', id: 't1', type: 'text-delta' },
+                            { delta: 'rn it all', id: 't1', type: 'text-delta' },
+                            { id: 't1', type: 'text-end' },
+                            FINISH,
+                        ]),
+                    ),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+            const parts = await collect(result?.stream);
+
+            // Then
+            expect(textOf(parts)).toBe('Well, [REDACTED] it all');
+            expect(parts.at(-2)).toEqual({ id: 't1', type: 'text-end' });
+            expect(parts.at(-1)).toEqual(FINISH);
+        });
+
+        test('ends a flagged stream with an error part, before any unchecked text', async () => {
+            // Given
+            const span = { setAttribute: vi.fn() };
+            vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+            const middleware = createModerationMiddleware({
+                action: 'block',
+                moderate,
+                streamCheckChars: 10,
+                streamOverlapChars: 5,
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { delta: 'All fine here. ', id: 't1', type: 'text-delta' },
+                            { delta: 'Then darn, ', id: 't1', type: 'text-delta' },
+                            { delta: 'and more.', id: 't1', type: 'text-delta' },
+                            FINISH,
+                        ]),
+                    ),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+            const parts = await collect(result?.stream);
+
+            // Then -- the last words checked were held back as the overlap
+            expect(textOf(parts)).toBe('All fine ');
+            expect(parts.at(-1)).toEqual({
+                error: expect.any(ContentModerationError),
+                type: 'error',
+            });
+            expect(span.setAttribute).toHaveBeenLastCalledWith('ai.moderation.categories', [
+                'profanity',
+            ]);
+        });
+
+        test('catches a passage straddling two checks', async () => {
+            // Given -- a two-word term cut by the first check
+            const middleware = createModerationMiddleware({
+                action: 'block',
+                moderate: createWordlistModerator({ selfHarm: ['kill yourself'] }),
+                streamCheckChars: 10,
+                streamOverlapChars: 15,
+            });
+
+            // When
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { delta: 'Fine words here and there. ', id: 't1', type: 'text-delta' },
+                            { delta: 'kill ', id: 't1', type: 'text-delta' },
+                            { delta: 'yourself now ', id: 't1', type: 'text-delta' },
+                            FINISH,
+                        ]),
+                    ),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+            const parts = await collect(result?.stream);
+
+            // Then -- "kill" was held back as the overlap of the first check
+            expect(textOf(parts)).toBe('Fine words ');
+            expect(parts.at(-1)).toEqual({
+                error: expect.any(ContentModerationError),
+                type: 'error',
+            });
+        });
+
+        test('redacts a passage straddling two checks whole', async () => {
+            const middleware = createModerationMiddleware({
+                action: 'redact',
+                moderate: createWordlistModerator({ selfHarm: ['kill yourself'] }),
+                streamCheckChars: 10,
+                streamOverlapChars: 5,
+            });
+
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { delta: 'Some text, kill ', id: 't1', type: 'text-delta' },
+                            { delta: 'yourself, more text', id: 't1', type: 'text-delta' },
+                            { id: 't1', type: 'text-end' },
+                            FINISH,
+                        ]),
+                    ),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+            const parts = await collect(result?.stream);
+
+            expect(textOf(parts)).toBe('Some text, [REDACTED], more text');
+        });
+
+        test('annotates the finish part of a flagged stream, leaving its text untouched', async () => {
+            const middleware = createModerationMiddleware({ moderate });
+
+            const result = await middleware.wrapStream?.({
+                doGenerate: vi.fn(),
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { delta: 'Oh da', id: 't1', type: 'text-delta' },
+                            { delta: 'rn.', id: 't1', type: 'text-delta' },
+                            FINISH,
+                        ]),
+                    ),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            });
+            const parts = await collect(result?.stream);
+
+            expect(textOf(parts)).toBe('Oh darn.');
+            expect(parts.at(-1)).toEqual({
+                ...FINISH,
+                providerMetadata: { moderation: { categories: ['profanity'], flagged: true } },
+            });
+        });
+    });
+});
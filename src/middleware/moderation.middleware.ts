@@ -0,0 +1,416 @@
+import type { LanguageModelV4StreamPart } from '@ai-sdk/provider';
+import type { LoggerPort } from '@jterrazz/telemetry';
+import { trace } from '@opentelemetry/api';
+import type { LanguageModelMiddleware } from 'ai';
+
+const FLAGGED_ATTRIBUTE = 'ai.moderation.flagged';
+const CATEGORIES_ATTRIBUTE = 'ai.moderation.categories';
+
+const MASK = '[REDACTED]';
+
+export interface ModerationVerdict {
+    flagged: boolean;
+    /** Policies the text violates, e.g. `['profanity']` */
+    categories?: string[];
+    /** Offending passages, masked by the `'redact'` action */
+    matches?: string[];
+}
+
+/**
+ * Checks a model output against a content policy. May be async, e.g. to ask
+ * a moderation model; throwing fails the call.
+ */
+export type Moderator = (text: string) => ModerationVerdict | Promise<ModerationVerdict>;
+
+/**
+ * What to do with a flagged response — in every case, the verdict is also
+ * recorded on the active span:
+ * - `'annotate'` returns it as-is, with the verdict under
+ *   `providerMetadata.moderation`;
+ * - `'redact'` masks the verdict's `matches` (the whole text without them);
+ * - `'block'` throws a `ContentModerationError`, or for streams ends them
+ *   with an `error` part.
+ */
+export type ModerationAction = 'annotate' | 'block' | 'redact';
+
+/**
+ * Thrown (or sent as the final `error` part of a stream) instead of a
+ * response flagged by moderation. Not retryable: a fallback model would
+ * answer the same prompt.
+ */
+export class ContentModerationError extends Error {
+    readonly isRetryable = false;
+    readonly categories: string[];
+
+    constructor(categories: string[]) {
+        super(
+            categories.length > 0
+                ? `Response blocked by moderation: ${categories.join(', ')}`
+                : 'Response blocked by moderation',
+        );
+        this.name = 'ContentModerationError';
+        this.categories = categories;
+    }
+}
+
+export interface ModerationMiddlewareOptions {
+    moderate: Moderator;
+    /** Default: `'annotate'` */
+    action?: ModerationAction;
+    /**
+     * Streams: characters of new text held back before each check, up to
+     * the last whitespace so words aren't split across checks (default: 200)
+     */
+    streamCheckChars?: number;
+    /**
+     * Streams: characters at the end of each check held back and checked
+     * again with the next text, so passages straddling two checks are still
+     * caught — at least the longest passage `moderate` flags (default: 50)
+     */
+    streamOverlapChars?: number;
+    /** Logs `ai.moderation.flagged` with the action and categories */
+    logger?: LoggerPort;
+}
+
+/** Verdicts of the checks of one response, merged */
+interface VerdictTally {
+    flagged: boolean;
+    categories: Set<string>;
+}
+
+function addVerdict(tally: VerdictTally, verdict: ModerationVerdict): void {
+    if (!verdict.flagged) {
+        return;
+    }
+    tally.flagged = true;
+    for (const category of verdict.categories ?? []) {
+        tally.categories.add(category);
+    }
+}
+
+/** The `providerMetadata.moderation` of an annotated response */
+function annotationOf(tally: VerdictTally) {
+    return { categories: [...tally.categories], flagged: tally.flagged };
+}
+
+function recordVerdict(tally: VerdictTally): void {
+    try {
+        const span = trace.getActiveSpan();
+        span?.setAttribute(FLAGGED_ATTRIBUTE, tally.flagged);
+        if (tally.categories.size > 0) {
+            span?.setAttribute(CATEGORIES_ATTRIBUTE, [...tally.categories]);
+        }
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
+    }
+}
+
+function redactText(text: string, verdict: ModerationVerdict): string {
+    if (!verdict.matches?.length) {
+        return MASK;
+    }
+    return verdict.matches.reduce((result, match) => result.replaceAll(match, MASK), text);
+}
+
+/**
+ * Moves `cut` back to the start of any occurrence of `matches` it would
+ * split, so each is released — and redacted — whole
+ */
+function cutOutsideMatches(text: string, cut: number, matches: string[]): number {
+    let adjusted = cut;
+    for (let moved = true; moved;) {
+        moved = false;
+        for (const match of matches) {
+            for (
+                let start = text.indexOf(match);
+                start !== -1 && start < adjusted;
+                start = text.indexOf(match, start + 1)
+            ) {
+                if (start + match.length > adjusted) {
+                    adjusted = start;
+                    moved = true;
+                }
+            }
+        }
+    }
+    return adjusted;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&');
+}
+
+/**
+ * Creates a local `Moderator` flagging texts that contain any term of its
+ * categories: strings match as whole words, case-insensitively; regular
+ * expressions as written. Each match is reported for redaction.
+ *
+ * @example
+ * ```ts
+ * const moderate = createWordlistModerator({
+ *   competitors: ['Acme', 'Globex'],
+ *   secrets: [/\bproject-\d{4}\b/i],
+ * });
+ *
+ * moderate('Try Acme instead');
+ * // { categories: ['competitors'], flagged: true, matches: ['Acme'] }
+ * ```
+ */
+export function createWordlistModerator(
+    categories: Record<string, Array<RegExp | string>>,
+): Moderator {
+    const compiled = Object.entries(categories).map(([category, terms]) => ({
+        category,
+        patterns: terms.map((term) =>
+            typeof term === 'string'
+                ? new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`, 'giu')
+                : new RegExp(term.source, term.flags.includes('g') ? term.flags : `${term.flags}g`),
+        ),
+    }));
+
+    return (text) => {
+        const matched: string[] = [];
+        const matches = new Set<string>();
+        for (const { category, patterns } of compiled) {
+            const found = patterns.flatMap((pattern) =>
+                [...text.matchAll(pattern)].map(([match]) => match),
+            );
+            if (found.length > 0) {
+                matched.push(category);
+                for (const match of found) {
+                    matches.add(match);
+                }
+            }
+        }
+        return { categories: matched, flagged: matched.length > 0, matches: [...matches] };
+    };
+}
+
+/**
+ * Creates middleware checking model output against a content policy with
+ * `moderate`, then blocking, redacting or annotating flagged responses
+ * depending on `action`. Sets `ai.moderation.flagged` on the active span,
+ * and `ai.moderation.categories` for flagged responses.
+ *
+ * Generations are checked once, on their whole text. Streams are checked as
+ * they flow: with `'block'` and `'redact'`, text is held back and checked
+ * every `streamCheckChars` characters, so nothing unchecked reaches the
+ * caller — at the cost of that much latency. The last `streamOverlapChars`
+ * of each check are only released after being checked again with the text
+ * that follows, so a passage straddling two checks is still caught. The
+ * released text is sent as new `text-delta` parts, without the
+ * `providerMetadata` of the original ones. With `'annotate'`, text flows
+ * untouched and the whole of it is checked at the `finish` part.
+ *
+ * @example
+ * ```ts
+ * const model = wrapLanguageModel({
+ *   model: provider.model('google/gemini-2.5-flash-lite'),
+ *   middleware: createModerationMiddleware({
+ *     action: 'redact',
+ *     moderate: createWordlistModerator({ profanity: ['darn', 'heck'] }),
+ *   }),
+ * });
+ * ```
+ */
+export function createModerationMiddleware(
+    options: ModerationMiddlewareOptions,
+): LanguageModelMiddleware {
+    const {
+        action = 'annotate',
+        logger,
+        moderate,
+        streamCheckChars = 200,
+        streamOverlapChars = 50,
+    } = options;
+
+    function logFlagged(tally: VerdictTally): void {
+        if (tally.flagged) {
+            logger?.warn('ai.moderation.flagged', { action, categories: [...tally.categories] });
+        }
+    }
+
+    return {
+        specificationVersion: 'v4',
+        wrapGenerate: async ({ doGenerate }) => {
+            const result = await doGenerate();
+
+            const text = result.content
+                .map((part) => (part.type === 'text' ? part.text : ''))
+                .join('');
+            const verdict = await moderate(text);
+            const tally = { categories: new Set<string>(), flagged: false };
+            addVerdict(tally, verdict);
+            recordVerdict(tally);
+            logFlagged(tally);
+
+            if (!verdict.flagged) {
+                return result;
+            }
+            if (action === 'block') {
+                throw new ContentModerationError([...tally.categories]);
+            }
+            if (action === 'redact') {
+                return {
+                    ...result,
+                    content: result.content.map((part) =>
+                        part.type === 'text'
+                            ? { ...part, text: redactText(part.text, verdict) }
+                            : part,
+                    ),
+                };
+            }
+            return {
+                ...result,
+                providerMetadata: { ...result.providerMetadata, moderation: annotationOf(tally) },
+            };
+        },
+
+        wrapStream: async ({ doStream }) => {
+            const result = await doStream();
+
+            const tally = { categories: new Set<string>(), flagged: false };
+
+            if (action === 'annotate') {
+                let text = '';
+                let checked = false;
+                const annotate = async () => {
+                    checked = true;
+                    addVerdict(tally, await moderate(text));
+                    recordVerdict(tally);
+                    logFlagged(tally);
+                };
+                return {
+                    ...result,
+                    stream: result.stream.pipeThrough(
+                        new TransformStream<LanguageModelV4StreamPart, LanguageModelV4StreamPart>({
+                            async transform(chunk, controller) {
+                                if (chunk.type === 'text-delta') {
+                                    text += chunk.delta;
+                                } else if (chunk.type === 'finish') {
+                                    await annotate();
+                                    if (tally.flagged) {
+                                        controller.enqueue({
+                                            ...chunk,
+                                            providerMetadata: {
+                                                ...chunk.providerMetadata,
+                                                moderation: annotationOf(tally),
+                                            },
+                                        });
+                                        return;
+                                    }
+                                }
+                                controller.enqueue(chunk);
+                            },
+                            async flush() {
+                                if (!checked) {
+                                    await annotate();
+                                }
+                            },
+                        }),
+                    ),
+                };
+            }
+
+            // Text held back until checked, from the text block `pendingId`.
+            let pending = '';
+            let pendingId = '';
+            let blocked = false;
+
+            /**
+             * Checks the pending text, then releases all of it, or only up to
+             * its last whitespace before the overlap kept for the next check
+             */
+            async function release(
+                controller: TransformStreamDefaultController<LanguageModelV4StreamPart>,
+                all: boolean,
+            ): Promise<void> {
+                let cut = pending.length;
+                if (!all) {
+                    const releasable = pending.slice(0, pending.length - streamOverlapChars);
+                    // Index past the last whitespace, 0 without any.
+                    const boundary = releasable.search(/\s\S*$/) + 1;
+                    // Keep the last, maybe unfinished, word for the next check — unless
+                    // The text has no whitespace at all (e.g. CJK) and keeps growing.
+                    if (boundary > 0) {
+                        cut = boundary;
+                    } else if (pending.length < 2 * streamCheckChars + streamOverlapChars) {
+                        return;
+                    } else {
+                        cut = releasable.length;
+                    }
+                }
+                if (cut === 0) {
+                    return;
+                }
+
+                const verdict = await moderate(pending);
+                const wasFlagged = tally.flagged;
+                addVerdict(tally, verdict);
+                recordVerdict(tally);
+                if (!wasFlagged) {
+                    logFlagged(tally);
+                }
+
+                if (verdict.flagged && action === 'block') {
+                    blocked = true;
+                    controller.enqueue({
+                        error: new ContentModerationError([...tally.categories]),
+                        type: 'error',
+                    });
+                    controller.terminate();
+                    return;
+                }
+
+                let delta: string;
+                if (!verdict.flagged) {
+                    delta = pending.slice(0, cut);
+                } else if (verdict.matches?.length) {
+                    cut = cutOutsideMatches(pending, cut, verdict.matches);
+                    delta = redactText(pending.slice(0, cut), verdict);
+                } else {
+                    // Nothing to point at: mask the whole checked text.
+                    cut = pending.length;
+                    delta = MASK;
+                }
+                pending = pending.slice(cut);
+                if (delta) {
+                    controller.enqueue({ delta, id: pendingId, type: 'text-delta' });
+                }
+            }
+
+            return {
+                ...result,
+                stream: result.stream.pipeThrough(
+                    new TransformStream<LanguageModelV4StreamPart, LanguageModelV4StreamPart>({
+                        async transform(chunk, controller) {
+                            if (blocked) {
+                                return;
+                            }
+                            if (chunk.type === 'text-delta') {
+                                if (pending && chunk.id !== pendingId) {
+                                    await release(controller, true);
+                                }
+                                pending += chunk.delta;
+                                pendingId = chunk.id;
+                                if (pending.length >= streamCheckChars + streamOverlapChars) {
+                                    await release(controller, false);
+                                }
+                                return;
+                            }
+                            await release(controller, true);
+                            if (!blocked) {
+                                controller.enqueue(chunk);
+                            }
+                        },
+                        async flush(controller) {
+                            if (!blocked) {
+                                await release(controller, true);
+                            }
+                        },
+                    }),
+                ),
+            };
+        },
+    };
+}
@@ -0,0 +1,188 @@
+import { trace } from '@opentelemetry/api';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { createTelemetryMiddleware } from './telemetry.middleware.js';
+
+function createMockSpan() {
+    return { setAttribute: vi.fn() };
+}
+
+function createMockModel(provider = 'openai.chat') {
+    return {
+        modelId: 'gpt-4o-mini',
+        provider,
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+    };
+}
+
+function createMockGenerateResult() {
+    return {
+        content: [{ type: 'text' as const, text: 'Hello world' }],
+        finishReason: { raw: 'stop', unified: 'stop' },
+        response: { modelId: 'gpt-4o-mini-2024-07-18' },
+        usage: { inputTokens: { total: 12 }, outputTokens: { total: 7 } },
+        warnings: [],
+    };
+}
+
+function streamOf(parts: unknown[]) {
+    return {
+        stream: new ReadableStream({
+            start(controller) {
+                for (const part of parts) {
+                    controller.enqueue(part);
+                }
+                controller.close();
+            },
+        }),
+    };
+}
+
+async function drain(stream: ReadableStream | undefined): Promise<void> {
+    const reader = stream?.getReader();
+    for (;;) {
+        const chunk = await reader?.read();
+        if (!chunk || chunk.done) {
+            return;
+        }
+    }
+}
+
+describe('createTelemetryMiddleware', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('sets the GenAI request and response attributes of a generation', async () => {
+        // Given
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+        const middleware = createTelemetryMiddleware({ agent: 'summarizer' });
+
+        // When
+        await middleware.wrapGenerate?.({
+            doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult()),
+            doStream: vi.fn(),
+            model: createMockModel() as never,
+            params: { maxOutputTokens: 256, prompt: [], temperature: 0.2 } as never,
+        });
+
+        // Then
+        expect(Object.fromEntries(span.setAttribute.mock.calls)).toEqual({
+            'gen_ai.agent.name': 'summarizer',
+            'gen_ai.request.max_tokens': 256,
+            'gen_ai.request.temperature': 0.2,
+            'gen_ai.response.finish_reasons': ['stop'],
+            'gen_ai.response.model': 'gpt-4o-mini-2024-07-18',
+            'gen_ai.system': 'openai',
+            'gen_ai.usage.input_tokens': 12,
+            'gen_ai.usage.output_tokens': 7,
+        });
+    });
+
+    test('maps provider names to their semantic-convention system', async () => {
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        await createTelemetryMiddleware().wrapGenerate?.({
+            doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult()),
+            doStream: vi.fn(),
+            model: createMockModel('google.generative-ai') as never,
+            params: { prompt: [] } as never,
+        });
+
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.system', 'gcp.gemini');
+    });
+
+    test('records the configured provider as the system over the AI SDK name', async () => {
+        // Given -- a gateway model, built with the OpenAI-compatible client
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+
+        // When
+        await createTelemetryMiddleware({ provider: 'litellm' }).wrapGenerate?.({
+            doGenerate: vi.fn().mockResolvedValue(createMockGenerateResult()),
+            doStream: vi.fn(),
+            model: createMockModel('openai.chat') as never,
+            params: { prompt: [] } as never,
+        });
+
+        // Then
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.system', 'litellm');
+    });
+
+    test('sets only the request attributes of a failed call', async () => {
+        // Given
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+        const middleware = createTelemetryMiddleware({ agent: 'summarizer' });
+
+        // When
+        const call = middleware.wrapGenerate?.({
+            doGenerate: vi.fn().mockRejectedValue(new Error('provider down')),
+            doStream: vi.fn(),
+            model: createMockModel() as never,
+            params: { prompt: [], temperature: 0.2 } as never,
+        });
+
+        // Then -- a fallback answering instead will set the response attributes
+        await expect(call).rejects.toThrow('provider down');
+        expect(span.setAttribute).not.toHaveBeenCalledWith('gen_ai.system', expect.anything());
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.agent.name', 'summarizer');
+    });
+
+    test('sets the response attributes of a stream at its finish part', async () => {
+        // Given
+        const span = createMockSpan();
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+        const middleware = createTelemetryMiddleware();
+
+        // When
+        const result = await middleware.wrapStream?.({
+            doGenerate: vi.fn(),
+            doStream: vi.fn().mockResolvedValue(
+                streamOf([
+                    { id: 'r1', modelId: 'gpt-4o-mini-2024-07-18', type: 'response-metadata' },
+                    { delta: 'Hi', id: 't1', type: 'text-delta' },
+                    {
+                        finishReason: { raw: 'length', unified: 'length' },
+                        type: 'finish',
+                        usage: { inputTokens: { total: 3 }, outputTokens: { total: 4 } },
+                    },
+                ]),
+            ),
+            model: createMockModel() as never,
+            params: { prompt: [] } as never,
+        });
+        await drain(result?.stream);
+
+        // Then
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.response.finish_reasons', [
+            'length',
+        ]);
+        expect(span.setAttribute).toHaveBeenCalledWith(
+            'gen_ai.response.model',
+            'gpt-4o-mini-2024-07-18',
+        );
+        expect(span.setAttribute).toHaveBeenCalledWith('gen_ai.usage.output_tokens', 4);
+    });
+
+    test('never throws when enrichment itself fails', async () => {
+        vi.spyOn(trace, 'getActiveSpan').mockImplementation(() => {
+            throw new Error('telemetry backend exploded');
+        });
+        const result = createMockGenerateResult();
+
+        await expect(
+            createTelemetryMiddleware().wrapGenerate?.({
+                doGenerate: vi.fn().mockResolvedValue(result),
+                doStream: vi.fn(),
+                model: createMockModel() as never,
+                params: { prompt: [] } as never,
+            }),
+        ).resolves.toBe(result);
+    });
+});
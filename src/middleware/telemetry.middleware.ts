@@ -0,0 +1,163 @@
+import type {
+    LanguageModelV4FinishReason,
+    LanguageModelV4StreamPart,
+    LanguageModelV4Usage,
+} from '@ai-sdk/provider';
+import { type AttributeValue, trace } from '@opentelemetry/api';
+import type { LanguageModelMiddleware } from 'ai';
+
+const ATTRIBUTES = {
+    agent: 'gen_ai.agent.name',
+    finishReasons: 'gen_ai.response.finish_reasons',
+    inputTokens: 'gen_ai.usage.input_tokens',
+    maxTokens: 'gen_ai.request.max_tokens',
+    outputTokens: 'gen_ai.usage.output_tokens',
+    responseModel: 'gen_ai.response.model',
+    system: 'gen_ai.system',
+    temperature: 'gen_ai.request.temperature',
+} as const;
+
+// Semantic-convention names of the providers whose AI SDK name differs.
+const SYSTEM_NAMES: Record<string, string> = {
+    google: 'gcp.gemini',
+    mistral: 'mistral_ai',
+};
+
+/** `gen_ai.system` of an AI SDK provider name, e.g. `'openai.chat'` → `'openai'` */
+function systemOf(provider: string): string {
+    const [name] = provider.split('.');
+    return SYSTEM_NAMES[name] ?? name;
+}
+
+function setAttributes(attributes: Record<string, AttributeValue | undefined>): void {
+    try {
+        const span = trace.getActiveSpan();
+        if (!span) {
+            return;
+        }
+        for (const [key, value] of Object.entries(attributes)) {
+            if (value !== undefined) {
+                span.setAttribute(key, value);
+            }
+        }
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
+    }
+}
+
+function responseAttributes(
+    provider: string,
+    finishReason: LanguageModelV4FinishReason | undefined,
+    usage: LanguageModelV4Usage | undefined,
+    responseModel: string | undefined,
+) {
+    return {
+        [ATTRIBUTES.finishReasons]: finishReason && [finishReason.unified],
+        [ATTRIBUTES.inputTokens]: usage?.inputTokens?.total,
+        [ATTRIBUTES.outputTokens]: usage?.outputTokens?.total,
+        [ATTRIBUTES.responseModel]: responseModel,
+        [ATTRIBUTES.system]: systemOf(provider),
+    };
+}
+
+export interface TelemetryMiddlewareOptions {
+    /** Agent the calls are made for, recorded as `gen_ai.agent.name` */
+    agent?: string;
+    /**
+     * Provider the model is configured under — the `<provider>` of
+     * `"<provider>/<model>"` — recorded as `gen_ai.system` instead of the AI
+     * SDK provider name, which is `openai` for any OpenAI-compatible gateway
+     */
+    provider?: string;
+}
+
+/**
+ * Creates middleware setting the OpenTelemetry GenAI semantic-convention
+ * attributes on the active span, so any OTel backend can break calls down by
+ * system, model, agent and token usage:
+ * - before the call: `gen_ai.request.temperature`, `gen_ai.request.max_tokens`
+ *   and `gen_ai.agent.name`;
+ * - once it succeeds (for streams, at the `finish` part): `gen_ai.system`,
+ *   `gen_ai.response.model`, `gen_ai.response.finish_reasons`,
+ *   `gen_ai.usage.input_tokens` and `gen_ai.usage.output_tokens`.
+ *
+ * Response attributes are only set by a call that succeeds, so wrapping each
+ * model of a fallback chain records the model that actually answered.
+ *
+ * Never throws: all enrichment is best-effort.
+ *
+ * @example
+ * ```ts
+ * const model = wrapLanguageModel({
+ *   model: provider.model('google/gemini-2.5-flash-lite'),
+ *   middleware: createTelemetryMiddleware({ agent: 'summarizer' }),
+ * });
+ * ```
+ */
+export function createTelemetryMiddleware(
+    options: TelemetryMiddlewareOptions = {},
+): LanguageModelMiddleware {
+    const { agent } = options;
+    const system = (model: { provider: string }) => options.provider ?? model.provider;
+
+    return {
+        specificationVersion: 'v4',
+        wrapGenerate: async ({ doGenerate, model, params }) => {
+            setAttributes({
+                [ATTRIBUTES.agent]: agent,
+                [ATTRIBUTES.maxTokens]: params.maxOutputTokens,
+                [ATTRIBUTES.temperature]: params.temperature,
+            });
+
+            const result = await doGenerate();
+
+            setAttributes(
+                responseAttributes(
+                    system(model),
+                    result.finishReason,
+                    result.usage,
+                    result.response?.modelId,
+                ),
+            );
+
+            return result;
+        },
+
+        wrapStream: async ({ doStream, model, params }) => {
+            setAttributes({
+                [ATTRIBUTES.agent]: agent,
+                [ATTRIBUTES.maxTokens]: params.maxOutputTokens,
+                [ATTRIBUTES.temperature]: params.temperature,
+            });
+
+            const result = await doStream();
+
+            let responseModel: string | undefined;
+            const transformStream = new TransformStream<
+                LanguageModelV4StreamPart,
+                LanguageModelV4StreamPart
+            >({
+                transform(chunk, controller) {
+                    if (chunk.type === 'response-metadata') {
+                        responseModel = chunk.modelId ?? responseModel;
+                    } else if (chunk.type === 'finish') {
+                        setAttributes(
+                            responseAttributes(
+                                system(model),
+                                chunk.finishReason,
+                                chunk.usage,
+                                responseModel,
+                            ),
+                        );
+                    }
+                    controller.enqueue(chunk);
+                },
+            });
+
+            return {
+                ...result,
+                stream: result.stream.pipeThrough(transformStream),
+            };
+        },
+    };
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { withBudgetScope } from '../budget/budget-scope.js';
+import { createMemoryBudgetStore } from '../budget/memory-budget-store.js';
+import { BudgetExceededError, createBudgetModel, createBudgetTracker } from './budget-model.js';
+import { createFallbackModel } from './fallback-model.js';
+
+function createMockLogger() {
+    return {
+        child: vi.fn(() => createMockLogger()),
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    };
+}
+
+function createMockModel(modelId: string, overrides: Record<string, unknown> = {}) {
+    return {
+        modelId,
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+        ...overrides,
+    };
+}
+
+const successResult = {
+    content: [{ type: 'text' as const, text: 'ok' }],
+    finishReason: 'stop' as const,
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+    warnings: [],
+};
+
+function doGenerate(model: unknown): Promise<unknown> {
+    return (model as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate({});
+}
+
+describe('createBudgetTracker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('rejects once the daily spend reaches the limit, until the next UTC day', async () => {
+        // Given -- a $1/day budget with $1 already spent
+        const logger = createMockLogger();
+        const tracker = createBudgetTracker({ logger });
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'day' as const }], name: 'global' }];
+        await tracker.record(budgets, 0.6);
+        await tracker.record(budgets, 0.4);
+
+        // Then
+        await expect(tracker.assertWithin(budgets)).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(logger.warn).toHaveBeenCalledWith(
+            'ai.budget.exceeded',
+            expect.objectContaining({ budget: 'global', spentUsd: 1, window: 'day' }),
+        );
+        vi.setSystemTime(new Date('2026-03-02T00:00:00Z'));
+        await expect(tracker.assertWithin(budgets)).resolves.toBeUndefined();
+    });
+
+    test('shares process budgets through the store', async () => {
+        // Given -- two workers sharing one store
+        const store = createMemoryBudgetStore();
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'process' as const }], name: 'global' }];
+        await createBudgetTracker({ store }).record(budgets, 2);
+
+        // Then
+        await expect(createBudgetTracker({ store }).assertWithin(budgets)).rejects.toThrow(
+            'Budget "global" exceeded: $2.0000 spent of $1 per process',
+        );
+    });
+
+    test('counts scope budgets per withBudgetScope call', async () => {
+        // Given
+        const tracker = createBudgetTracker();
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'scope' as const }], name: 'global' }];
+
+        // When -- one scope spends its budget
+        await withBudgetScope(async () => {
+            await tracker.record(budgets, 1);
+            await expect(tracker.assertWithin(budgets)).rejects.toBeInstanceOf(BudgetExceededError);
+        });
+
+        // Then -- other scopes, and calls outside any scope, are unaffected
+        await withBudgetScope(() => expect(tracker.assertWithin(budgets)).resolves.toBeUndefined());
+        await expect(tracker.assertWithin(budgets)).resolves.toBeUndefined();
+    });
+    test('keeps the scope counters of trackers sharing a scope apart', async () => {
+        // Given -- two trackers with a budget of the same name
+        const first = createBudgetTracker();
+        const second = createBudgetTracker();
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'scope' as const }], name: 'global' }];
+
+        await withBudgetScope(async () => {
+            // When
+            await first.record(budgets, 1);
+
+            // Then
+            await expect(first.assertWithin(budgets)).rejects.toBeInstanceOf(BudgetExceededError);
+            await expect(second.assertWithin(budgets)).resolves.toBeUndefined();
+        });
+    });
+});
+
+describe('createBudgetModel', () => {
+    test('fails fast without calling a model whose budget is spent', async () => {
+        // Given
+        const tracker = createBudgetTracker();
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'process' as const }], name: 'spent' }];
+        await tracker.record(budgets, 1);
+        const inner = createMockModel('primary');
+        const model = createBudgetModel({ budgets, model: inner as never, tracker });
+
+        // Then
+        const error = await doGenerate(model).catch((caught: unknown) => caught);
+        expect(error).toBeInstanceOf(BudgetExceededError);
+        expect((error as BudgetExceededError).isRetryable).toBe(false);
+        expect(inner.doGenerate).not.toHaveBeenCalled();
+    });
+
+    test('routes to the fallback when thrown as retryable', async () => {
+        // Given -- a spent budget guarding only the primary
+        const tracker = createBudgetTracker();
+        const budgets = [{ limits: [{ maxUsd: 1, window: 'process' as const }], name: 'primary' }];
+        await tracker.record(budgets, 1);
+        const primary = createMockModel('primary');
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createFallbackModel({
+            fallback: fallback as never,
+            primary: createBudgetModel({
+                budgets,
+                model: primary as never,
+                retryable: true,
+                tracker,
+            }),
+        });
+
+        // When
+        const result = await doGenerate(model);
+
+        // Then
+        expect(result).toBe(successResult);
+        expect(primary.doGenerate).not.toHaveBeenCalled();
+    });
+});
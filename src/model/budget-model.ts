@@ -0,0 +1,210 @@
+import { randomUUID } from 'node:crypto';
+
+import type { LanguageModelV4, LanguageModelV4CallOptions } from '@ai-sdk/provider';
+import type { LoggerPort } from '@jterrazz/telemetry';
+import type { LanguageModel } from 'ai';
+
+import { activeBudgetScope } from '../budget/budget-scope.js';
+import type { BudgetStore } from '../budget/budget-store.js';
+import { createMemoryBudgetStore } from '../budget/memory-budget-store.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Distinguishes this process's `'process'` counters in a shared store.
+const PROCESS_ID = randomUUID();
+
+/**
+ * Period a budget limit applies to: a UTC calendar day, the lifetime of the
+ * process, or a `withBudgetScope` scope (e.g. one request)
+ */
+export type BudgetWindow = 'day' | 'process' | 'scope';
+
+export interface BudgetLimit {
+    /** USD that may be spent per window */
+    maxUsd: number;
+    window: BudgetWindow;
+}
+
+/** A named set of limits sharing one spend counter per window */
+export interface Budget {
+    /** Counter name, e.g. `'global'` or `'agent:summarizer'` */
+    name: string;
+    limits: BudgetLimit[];
+}
+
+/**
+ * Thrown instead of calling a model once a budget is spent. Not retryable by
+ * default; a budget guarding only the primary model of a fallback chain
+ * throws it as retryable, routing calls to the (cheaper) fallbacks.
+ */
+export class BudgetExceededError extends Error {
+    readonly isRetryable: boolean;
+    readonly budget: string;
+    readonly limit: BudgetLimit;
+    readonly spentUsd: number;
+
+    constructor(budget: string, limit: BudgetLimit, spentUsd: number, isRetryable = false) {
+        super(
+            `Budget "${budget}" exceeded: $${spentUsd.toFixed(4)} spent of $${limit.maxUsd} per ${limit.window}`,
+        );
+        this.name = 'BudgetExceededError';
+        this.isRetryable = isRetryable;
+        this.budget = budget;
+        this.limit = limit;
+        this.spentUsd = spentUsd;
+    }
+}
+
+export interface BudgetTrackerOptions {
+    /** Spend counters (default: an in-process `createMemoryBudgetStore()`) */
+    store?: BudgetStore;
+    /** Logs `ai.budget.exceeded` when a call is rejected */
+    logger?: LoggerPort;
+}
+
+export interface BudgetTracker {
+    /** Throws a `BudgetExceededError` if any limit of `budgets` is spent */
+    assertWithin: (budgets: Budget[], options?: { retryable?: boolean }) => Promise<void>;
+    /** Charges `costUsd` to every window of `budgets` */
+    record: (budgets: Budget[], costUsd: number) => Promise<void>;
+}
+
+function utcDay(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Creates a budget tracker accumulating resolved costs per budget and window.
+ * `'day'` and `'process'` counters live in `store`, so a shared store makes
+ * them hold across workers; `'scope'` counters live in the active
+ * `withBudgetScope` scope, apart from those of other trackers.
+ *
+ * Limits are checked before each call against what was spent so far: calls
+ * already in flight when a budget runs out still complete, so spend can
+ * overshoot a limit by their cost.
+ */
+export function createBudgetTracker(options: BudgetTrackerOptions = {}): BudgetTracker {
+    const { logger, store = createMemoryBudgetStore() } = options;
+
+    // Distinguishes this tracker's `'scope'` counters from those of other
+    // Trackers (e.g. other `createIntelligence` instances) in the same scope.
+    const trackerId = randomUUID();
+
+    function counterKey(name: string, window: 'day' | 'process'): string {
+        return window === 'day' ? `${name}:day:${utcDay()}` : `${name}:process:${PROCESS_ID}`;
+    }
+
+    function scopeKey(name: string): string {
+        return `${trackerId}:${name}`;
+    }
+
+    async function spent(name: string, window: BudgetWindow): Promise<number | undefined> {
+        if (window === 'scope') {
+            const scope = activeBudgetScope();
+            return scope && (scope.get(scopeKey(name)) ?? 0);
+        }
+        return store.get(counterKey(name, window));
+    }
+
+    /** The windows `budget` has limits for, so each counter is charged once */
+    function windowsOf(budget: Budget): Set<BudgetWindow> {
+        return new Set(budget.limits.map((limit) => limit.window));
+    }
+
+    return {
+        async assertWithin(budgets, { retryable = false } = {}) {
+            for (const budget of budgets) {
+                for (const limit of budget.limits) {
+                    const spentUsd = await spent(budget.name, limit.window);
+                    if (spentUsd !== undefined && spentUsd >= limit.maxUsd) {
+                        logger?.warn('ai.budget.exceeded', {
+                            budget: budget.name,
+                            maxUsd: limit.maxUsd,
+                            spentUsd,
+                            window: limit.window,
+                        });
+                        throw new BudgetExceededError(budget.name, limit, spentUsd, retryable);
+                    }
+                }
+            }
+        },
+
+        async record(budgets, costUsd) {
+            if (costUsd <= 0) {
+                return;
+            }
+            const scope = activeBudgetScope();
+            for (const budget of budgets) {
+                for (const window of windowsOf(budget)) {
+                    if (window === 'scope') {
+                        const key = scopeKey(budget.name);
+                        scope?.set(key, (scope.get(key) ?? 0) + costUsd);
+                    } else {
+                        await store.increment(
+                            counterKey(budget.name, window),
+                            costUsd,
+                            window === 'day' ? DAY_MS : undefined,
+                        );
+                    }
+                }
+            }
+        },
+    };
+}
+
+export interface BudgetModelOptions {
+    model: LanguageModel;
+    tracker: BudgetTracker;
+    budgets: Budget[];
+    /**
+     * Throw `BudgetExceededError` as retryable, so a fallback chain moves on
+     * to the next model instead of failing (default: false)
+     */
+    retryable?: boolean;
+}
+
+/**
+ * Creates a `LanguageModelV4` rejecting calls with a `BudgetExceededError`
+ * once any of `budgets` is spent. It only checks: charging the budgets is up
+ * to the cost middleware's `onUsage` hook, calling `tracker.record`.
+ *
+ * @example
+ * ```ts
+ * const tracker = createBudgetTracker();
+ * const budgets = [{ name: 'summarizer', limits: [{ maxUsd: 5, window: 'day' }] }];
+ * const model = createBudgetModel({
+ *   budgets,
+ *   model: wrapLanguageModel({
+ *     model: provider.model('anthropic/claude-sonnet-4'),
+ *     middleware: createCostMiddleware({
+ *       modelRef: 'openrouter/anthropic/claude-sonnet-4',
+ *       onUsage: (usage) => void tracker.record(budgets, usage.costUsd ?? 0),
+ *     }),
+ *   }),
+ *   tracker,
+ * });
+ * ```
+ */
+export function createBudgetModel(options: BudgetModelOptions): LanguageModel {
+    const { budgets, retryable = false, tracker } = options;
+    const inner = options.model as LanguageModelV4;
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        supportedUrls: inner.supportedUrls,
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            await tracker.assertWithin(budgets, { retryable });
+            return inner.doGenerate(callOptions);
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            await tracker.assertWithin(budgets, { retryable });
+            return inner.doStream(callOptions);
+        },
+    };
+
+    return model;
+}
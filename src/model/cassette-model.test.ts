@@ -0,0 +1,153 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+    CassetteNotFoundError,
+    createRecordingModel,
+    createReplayModel,
+} from './cassette-model.js';
+
+function createMockModel(modelId: string, overrides: Record<string, unknown> = {}) {
+    return {
+        modelId,
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+        ...overrides,
+    };
+}
+
+const successResult = {
+    content: [{ type: 'text' as const, text: 'ok' }],
+    finishReason: { unified: 'stop', raw: 'stop' },
+    response: { id: 'resp-1', timestamp: new Date('2026-01-01T00:00:00Z') },
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+    warnings: [],
+};
+
+const streamParts = [
+    { type: 'stream-start', warnings: [] },
+    { type: 'text-delta', id: '1', delta: 'ok' },
+    { type: 'finish', finishReason: { unified: 'stop', raw: 'stop' }, usage: {} },
+];
+
+const callOptions = { prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }] };
+
+interface CallableModel {
+    doGenerate: (o: unknown) => Promise<unknown>;
+    doStream: (o: unknown) => Promise<{ stream: ReadableStream }>;
+}
+
+async function drain(stream: ReadableStream): Promise<unknown[]> {
+    const parts: unknown[] = [];
+    const reader = stream.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            return parts;
+        }
+        parts.push(value);
+    }
+}
+
+describe('cassette models', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'intelligence-cassettes-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { force: true, recursive: true });
+    });
+
+    test('replays a recorded generate result', async () => {
+        // Given -- a call recorded against a real model
+        const inner = createMockModel('gpt-4o-mini', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const recording = createRecordingModel({
+            directory,
+            model: inner as never,
+            modelRef: 'openrouter/gpt-4o-mini',
+        }) as never as CallableModel;
+        await recording.doGenerate(callOptions);
+
+        // When
+        const replay = createReplayModel({
+            directory,
+            modelRef: 'openrouter/gpt-4o-mini',
+        }) as never as CallableModel;
+        const result = await replay.doGenerate({ ...callOptions, headers: { 'x-trace': '1' } });
+
+        // Then -- the same result, timestamp included
+        expect(result).toEqual(successResult);
+        const [file] = await readdir(directory);
+        const cassette = JSON.parse(await readFile(join(directory, file), 'utf8'));
+        expect(cassette.request.model).toBe('openrouter/gpt-4o-mini');
+    });
+
+    test('replays the parts of a recorded stream', async () => {
+        // Given
+        const inner = createMockModel('gpt-4o-mini', {
+            doStream: vi.fn().mockResolvedValue({
+                stream: new ReadableStream({
+                    start(controller) {
+                        for (const part of streamParts) {
+                            controller.enqueue(part);
+                        }
+                        controller.close();
+                    },
+                }),
+            }),
+        });
+        const recording = createRecordingModel({
+            directory,
+            model: inner as never,
+        }) as never as CallableModel;
+        await drain((await recording.doStream(callOptions)).stream);
+
+        // When
+        const replay = createReplayModel({
+            directory,
+            modelRef: 'test/gpt-4o-mini',
+        }) as never as CallableModel;
+        const parts = await drain((await replay.doStream(callOptions)).stream);
+
+        // Then
+        expect(parts).toEqual(streamParts);
+    });
+
+    test('rejects a call with no cassette', async () => {
+        // Given
+        const replay = createReplayModel({
+            directory,
+            modelRef: 'openrouter/gpt-4o-mini',
+        }) as never as CallableModel;
+
+        // Then
+        await expect(replay.doGenerate(callOptions)).rejects.toBeInstanceOf(CassetteNotFoundError);
+    });
+
+    test('does not record failed calls', async () => {
+        // Given
+        const inner = createMockModel('gpt-4o-mini', {
+            doGenerate: vi.fn().mockRejectedValue(new Error('HTTP 503')),
+        });
+        const recording = createRecordingModel({
+            directory,
+            model: inner as never,
+        }) as never as CallableModel;
+
+        // When
+        await expect(recording.doGenerate(callOptions)).rejects.toThrow('HTTP 503');
+
+        // Then
+        expect(await readdir(directory)).toEqual([]);
+    });
+});
@@ -0,0 +1,194 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { LanguageModelV4, LanguageModelV4CallOptions } from '@ai-sdk/provider';
+import type { LanguageModel } from 'ai';
+
+import {
+    type CallMode,
+    hashCall,
+    normalizeCall,
+    recordStream,
+    replayStream,
+    reviveGenerateResult,
+    storableGenerateResult,
+    toJson,
+} from '../cache/call-key.js';
+
+/** How `createIntelligence` runs agents against cassettes */
+export type CassetteMode = 'passthrough' | 'record' | 'replay';
+
+/**
+ * One recorded call, stored as `<directory>/<hash>.json`. The normalized
+ * request is kept alongside the response so fixtures can be reviewed in a diff.
+ */
+interface Cassette {
+    request: unknown;
+    response: { type: 'generate'; result: unknown } | { type: 'stream'; parts: unknown[] };
+}
+
+/**
+ * Thrown by a replay model when no cassette matches the call. Not retryable:
+ * the fixture is missing, and no fallback will record it.
+ */
+export class CassetteNotFoundError extends Error {
+    readonly hash: string;
+    readonly modelRef: string;
+
+    constructor(modelRef: string, hash: string, directory: string) {
+        super(
+            `No cassette for this call to "${modelRef}" in ${directory} (${hash}.json). Run in record mode to create it.`,
+        );
+        this.name = 'CassetteNotFoundError';
+        this.hash = hash;
+        this.modelRef = modelRef;
+    }
+}
+
+export interface RecordingModelOptions {
+    model: LanguageModel;
+    /** Directory the cassettes are written to, created on first write */
+    directory: string;
+    /**
+     * Model reference folded into the request hash (default: the wrapped
+     * model's `"<provider>/<modelId>"`)
+     */
+    modelRef?: string;
+}
+
+export interface ReplayModelOptions {
+    /** Directory holding the cassettes written by `createRecordingModel` */
+    directory: string;
+    /** Model reference the cassettes were recorded under, e.g. `'openrouter/openai/gpt-4o-mini'` */
+    modelRef: string;
+}
+
+function cassettePath(directory: string, hash: string): string {
+    return join(directory, `${hash}.json`);
+}
+
+/**
+ * Creates a `LanguageModelV4` passing calls through to `model` and writing
+ * each response to a JSON cassette in `directory`, named after the SHA-256
+ * hash of the normalized call options (prompt, response format, tools,
+ * sampling settings) and `modelRef` — the same key `createReplayModel` looks
+ * up. Generate results are written once the call resolves; streams once they
+ * complete without an error part. Errors are never recorded.
+ *
+ * @example
+ * ```ts
+ * const model = createRecordingModel({
+ *   model: provider.model('openai/gpt-4o-mini'),
+ *   directory: 'tests/cassettes',
+ *   modelRef: 'openrouter/openai/gpt-4o-mini',
+ * });
+ * ```
+ */
+export function createRecordingModel(options: RecordingModelOptions): LanguageModel {
+    const { directory } = options;
+    const inner = options.model as LanguageModelV4;
+    const modelRef = options.modelRef ?? `${inner.provider}/${inner.modelId}`;
+
+    async function record(
+        mode: CallMode,
+        callOptions: LanguageModelV4CallOptions,
+        response: Cassette['response'],
+    ): Promise<void> {
+        const request = normalizeCall(mode, modelRef, callOptions);
+        const cassette: Cassette = { request, response };
+        await mkdir(directory, { recursive: true });
+        await writeFile(
+            cassettePath(directory, hashCall(request)),
+            `${JSON.stringify(cassette, null, 2)}\n`,
+        );
+    }
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        supportedUrls: inner.supportedUrls,
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            const result = await inner.doGenerate(callOptions);
+            await record('generate', callOptions, {
+                result: storableGenerateResult(result),
+                type: 'generate',
+            });
+            return result;
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            const result = await inner.doStream(callOptions);
+            return {
+                ...result,
+                // The stream only closes once its cassette is on disk.
+                stream: recordStream(result.stream, (parts) =>
+                    record('stream', callOptions, {
+                        parts: toJson(parts) as unknown[],
+                        type: 'stream',
+                    }),
+                ),
+            };
+        },
+    };
+
+    return model;
+}
+
+/**
+ * Creates a `LanguageModelV4` answering calls from the cassettes written by
+ * `createRecordingModel`, without any network access: generate calls get the
+ * recorded result, stream calls the recorded parts. A call with no matching
+ * cassette rejects with a `CassetteNotFoundError`.
+ *
+ * @example
+ * ```ts
+ * const model = createReplayModel({
+ *   directory: 'tests/cassettes',
+ *   modelRef: 'openrouter/openai/gpt-4o-mini',
+ * });
+ * ```
+ */
+export function createReplayModel(options: ReplayModelOptions): LanguageModel {
+    const { directory, modelRef } = options;
+
+    async function load(
+        mode: CallMode,
+        callOptions: LanguageModelV4CallOptions,
+    ): Promise<Cassette['response']> {
+        const hash = hashCall(normalizeCall(mode, modelRef, callOptions));
+        let raw: string;
+        try {
+            raw = await readFile(cassettePath(directory, hash), 'utf8');
+        } catch {
+            throw new CassetteNotFoundError(modelRef, hash, directory);
+        }
+        return (JSON.parse(raw) as Cassette).response;
+    }
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: 'cassette',
+        modelId: modelRef,
+        supportedUrls: {},
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            const response = await load('generate', callOptions);
+            if (response.type !== 'generate') {
+                throw new Error(`Cassette for "${modelRef}" holds a ${response.type} response`);
+            }
+            return reviveGenerateResult(response.result);
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            const response = await load('stream', callOptions);
+            if (response.type !== 'stream') {
+                throw new Error(`Cassette for "${modelRef}" holds a ${response.type} response`);
+            }
+            return { stream: replayStream(response.parts) };
+        },
+    };
+
+    return model;
+}
@@ -0,0 +1,244 @@
+import { APICallError } from '@ai-sdk/provider';
+import { trace } from '@opentelemetry/api';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+    CircuitOpenError,
+    createCircuitBreaker,
+    createCircuitBreakerModel,
+} from './circuit-breaker.js';
+import { createFallbackModel } from './fallback-model.js';
+
+function createMockLogger() {
+    return {
+        child: vi.fn(() => createMockLogger()),
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    };
+}
+
+function createMockModel(modelId: string, overrides: Record<string, unknown> = {}) {
+    return {
+        modelId,
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+        ...overrides,
+    };
+}
+
+function apiCallError(statusCode: number) {
+    return new APICallError({
+        message: `HTTP ${statusCode}`,
+        url: 'https://example.com',
+        requestBodyValues: {},
+        statusCode,
+    });
+}
+
+const successResult = {
+    content: [{ type: 'text' as const, text: 'ok' }],
+    finishReason: 'stop' as const,
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+    warnings: [],
+};
+
+function doGenerate(model: unknown, callOptions: object = {}): Promise<unknown> {
+    return (model as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate(callOptions);
+}
+
+describe('createCircuitBreaker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    test('opens after the failure threshold and rejects until the cool-down elapses', () => {
+        // Given -- a breaker opening after two consecutive failures
+        const logger = createMockLogger();
+        const breaker = createCircuitBreaker({ cooldownMs: 1000, failureThreshold: 2, logger });
+
+        // When
+        breaker.recordFailure('openrouter/model');
+        breaker.recordFailure('openrouter/model');
+
+        // Then -- calls are rejected and the transition is logged
+        expect(breaker.state('openrouter/model')).toBe('open');
+        expect(breaker.tryAcquire('openrouter/model')).toBe(false);
+        expect(logger.warn).toHaveBeenCalledWith(
+            'ai.circuit.opened',
+            expect.objectContaining({ failures: 2, key: 'openrouter/model' }),
+        );
+    });
+
+    test('keeps one circuit per key', () => {
+        // Given
+        const breaker = createCircuitBreaker({ failureThreshold: 1 });
+
+        // When
+        breaker.recordFailure('openrouter/a');
+
+        // Then
+        expect(breaker.state('openrouter/a')).toBe('open');
+        expect(breaker.state('openrouter/b')).toBe('closed');
+    });
+
+    test('lets a single probe through once half-open, closing on success', () => {
+        // Given -- an open circuit whose cool-down has elapsed
+        const logger = createMockLogger();
+        const breaker = createCircuitBreaker({ cooldownMs: 1000, failureThreshold: 1, logger });
+        breaker.recordFailure('key');
+        vi.advanceTimersByTime(1000);
+
+        // When -- two callers arrive concurrently
+        const first = breaker.tryAcquire('key');
+        const second = breaker.tryAcquire('key');
+
+        // Then -- only the probe goes through, and its success closes the circuit
+        expect(first).toBe(true);
+        expect(second).toBe(false);
+        breaker.recordSuccess('key');
+        expect(breaker.state('key')).toBe('closed');
+        expect(logger.info).toHaveBeenCalledWith('ai.circuit.half_open', { key: 'key' });
+        expect(logger.info).toHaveBeenCalledWith('ai.circuit.closed', { key: 'key' });
+    });
+
+    test('re-opens when the half-open probe fails', () => {
+        // Given
+        const breaker = createCircuitBreaker({ cooldownMs: 1000, failureThreshold: 3 });
+        breaker.recordFailure('key');
+        breaker.recordFailure('key');
+        breaker.recordFailure('key');
+        vi.advanceTimersByTime(1000);
+        breaker.tryAcquire('key');
+
+        // When
+        breaker.recordFailure('key');
+
+        // Then -- a single failed probe is enough, and a fresh cool-down starts
+        expect(breaker.state('key')).toBe('open');
+        expect(breaker.tryAcquire('key')).toBe(false);
+    });
+
+    test('records state changes on the active span', () => {
+        // Given
+        const span = { addEvent: vi.fn() };
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+        const breaker = createCircuitBreaker({ failureThreshold: 1 });
+
+        // When
+        breaker.recordFailure('key');
+
+        // Then
+        expect(span.addEvent).toHaveBeenCalledWith('ai.circuit.state_change', {
+            'ai.circuit.from': 'closed',
+            'ai.circuit.key': 'key',
+            'ai.circuit.to': 'open',
+        });
+    });
+});
+
+describe('createCircuitBreakerModel', () => {
+    test('fails fast with a CircuitOpenError while the circuit is open', async () => {
+        // Given -- a model whose circuit opened after one 503
+        const breaker = createCircuitBreaker({ failureThreshold: 1 });
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const model = createCircuitBreakerModel({
+            breaker,
+            key: 'test/primary',
+            model: inner as never,
+        });
+        await expect(doGenerate(model)).rejects.toThrow('HTTP 503');
+
+        // Then -- the next call never reaches the model
+        await expect(doGenerate(model)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not count non-retryable errors as failures', async () => {
+        // Given -- a model answering with a 400
+        const breaker = createCircuitBreaker({ failureThreshold: 1 });
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(400)),
+        });
+        const model = createCircuitBreakerModel({
+            breaker,
+            key: 'test/primary',
+            model: inner as never,
+        });
+
+        // When
+        await expect(doGenerate(model)).rejects.toThrow('HTTP 400');
+
+        // Then
+        expect(breaker.state('test/primary')).toBe('closed');
+    });
+
+    test('neither closes nor re-opens the circuit when an aborted call fails', async () => {
+        // Given -- a half-open circuit whose probe the caller aborts
+        vi.useFakeTimers();
+        const breaker = createCircuitBreaker({ cooldownMs: 1000, failureThreshold: 1 });
+        breaker.recordFailure('test/primary');
+        vi.advanceTimersByTime(1000);
+        const controller = new AbortController();
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn(() => {
+                controller.abort();
+                return Promise.reject(new DOMException('Aborted', 'AbortError'));
+            }),
+        });
+        const model = createCircuitBreakerModel({
+            breaker,
+            key: 'test/primary',
+            model: inner as never,
+        });
+
+        // When
+        await expect(doGenerate(model, { abortSignal: controller.signal })).rejects.toThrow(
+            'Aborted',
+        );
+
+        // Then -- still half-open, with the probe slot free for the next caller
+        expect(breaker.state('test/primary')).toBe('half-open');
+        expect(breaker.tryAcquire('test/primary')).toBe(true);
+        vi.useRealTimers();
+    });
+
+    test('sends calls straight to the fallback once the primary circuit is open', async () => {
+        // Given -- a guarded primary that is down, ahead of a healthy fallback
+        const breaker = createCircuitBreaker({ failureThreshold: 1 });
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createFallbackModel({
+            fallback: fallback as never,
+            primary: createCircuitBreakerModel({
+                breaker,
+                key: 'test/primary',
+                model: primary as never,
+            }),
+        });
+
+        // When
+        await doGenerate(model);
+        const result = await doGenerate(model);
+
+        // Then -- the second call skipped the primary entirely
+        expect(result).toBe(successResult);
+        expect(primary.doGenerate).toHaveBeenCalledTimes(1);
+        expect(fallback.doGenerate).toHaveBeenCalledTimes(2);
+    });
+});
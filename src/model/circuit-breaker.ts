@@ -0,0 +1,245 @@
+import type { LanguageModelV4, LanguageModelV4CallOptions } from '@ai-sdk/provider';
+import type { LoggerPort } from '@jterrazz/telemetry';
+import { trace } from '@opentelemetry/api';
+import type { LanguageModel } from 'ai';
+
+import { isRetryableError } from './retryable-error.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+type CircuitState = 'closed' | 'half-open' | 'open';
+
+interface CircuitEntry {
+    state: CircuitState;
+    failures: number;
+    openedAt: number;
+    probeInFlight: boolean;
+}
+
+/**
+ * Thrown instead of calling a model whose circuit is open. Classified as
+ * retryable, so a fallback chain moves straight on to the next model.
+ */
+export class CircuitOpenError extends Error {
+    readonly isRetryable = true;
+    readonly key: string;
+
+    constructor(key: string) {
+        super(`Circuit open for "${key}", skipping the call`);
+        this.name = 'CircuitOpenError';
+        this.key = key;
+    }
+}
+
+export type { CircuitState };
+
+export interface CircuitBreakerOptions {
+    /** Consecutive retryable failures that open the circuit (default: 5) */
+    failureThreshold?: number;
+    /** Time an open circuit waits before letting a probe call through (default: 30000) */
+    cooldownMs?: number;
+    /** Logs `ai.circuit.opened`, `ai.circuit.half_open` and `ai.circuit.closed` */
+    logger?: LoggerPort;
+}
+
+export interface CircuitBreaker {
+    /** Current state of the circuit for `key` */
+    state: (key: string) => CircuitState;
+    /**
+     * Whether a call may go through. Once the cool-down has elapsed, the first
+     * caller is let through as the half-open probe; the others are rejected
+     * until it settles.
+     */
+    tryAcquire: (key: string) => boolean;
+    recordSuccess: (key: string) => void;
+    recordFailure: (key: string) => void;
+    /**
+     * Frees the half-open probe slot without an outcome — for a call that
+     * was aborted, which says nothing about the model's health
+     */
+    releaseProbe: (key: string) => void;
+}
+
+function recordStateChange(key: string, from: CircuitState, to: CircuitState): void {
+    try {
+        trace.getActiveSpan()?.addEvent('ai.circuit.state_change', {
+            'ai.circuit.from': from,
+            'ai.circuit.key': key,
+            'ai.circuit.to': to,
+        });
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
+    }
+}
+
+/**
+ * Creates a circuit breaker tracking one closed/open/half-open circuit per
+ * key — `createIntelligence` keys them by `"<provider>/<model>"`, so agents
+ * sharing a model share its circuit.
+ *
+ * State changes are logged and recorded as an `ai.circuit.state_change`
+ * event on the active OpenTelemetry span.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+    const {
+        cooldownMs = DEFAULT_COOLDOWN_MS,
+        failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+        logger,
+    } = options;
+    const circuits = new Map<string, CircuitEntry>();
+
+    function entry(key: string): CircuitEntry {
+        let circuit = circuits.get(key);
+        if (!circuit) {
+            circuit = { failures: 0, openedAt: 0, probeInFlight: false, state: 'closed' };
+            circuits.set(key, circuit);
+        }
+        return circuit;
+    }
+
+    function transition(key: string, circuit: CircuitEntry, to: CircuitState): void {
+        const from = circuit.state;
+        circuit.state = to;
+        circuit.probeInFlight = false;
+
+        if (to === 'open') {
+            circuit.openedAt = Date.now();
+            logger?.warn('ai.circuit.opened', { key, failures: circuit.failures, cooldownMs });
+        } else if (to === 'half-open') {
+            logger?.info('ai.circuit.half_open', { key });
+        } else {
+            circuit.failures = 0;
+            logger?.info('ai.circuit.closed', { key });
+        }
+        recordStateChange(key, from, to);
+    }
+
+    return {
+        state(key) {
+            const circuit = entry(key);
+            if (circuit.state === 'open' && Date.now() - circuit.openedAt >= cooldownMs) {
+                return 'half-open';
+            }
+            return circuit.state;
+        },
+
+        tryAcquire(key) {
+            const circuit = entry(key);
+            if (circuit.state === 'open') {
+                if (Date.now() - circuit.openedAt < cooldownMs) {
+                    return false;
+                }
+                transition(key, circuit, 'half-open');
+            }
+            if (circuit.state === 'half-open') {
+                if (circuit.probeInFlight) {
+                    return false;
+                }
+                circuit.probeInFlight = true;
+            }
+            return true;
+        },
+
+        recordSuccess(key) {
+            const circuit = entry(key);
+            if (circuit.state === 'closed') {
+                circuit.failures = 0;
+                return;
+            }
+            transition(key, circuit, 'closed');
+        },
+
+        recordFailure(key) {
+            const circuit = entry(key);
+            circuit.failures++;
+            if (
+                circuit.state === 'half-open' ||
+                (circuit.state === 'closed' && circuit.failures >= failureThreshold)
+            ) {
+                transition(key, circuit, 'open');
+            }
+        },
+
+        releaseProbe(key) {
+            entry(key).probeInFlight = false;
+        },
+    };
+}
+
+export interface CircuitBreakerModelOptions {
+    model: LanguageModel;
+    breaker: CircuitBreaker;
+    /** Circuit key, e.g. `'openrouter/anthropic/claude-sonnet-4'` */
+    key: string;
+}
+
+/**
+ * Creates a `LanguageModelV4` guarded by `breaker`: while the circuit for
+ * `key` is open, calls fail fast with a `CircuitOpenError` instead of paying
+ * the model's timeout. Retryable errors (429, 5xx, network) count as
+ * failures; a response of any other kind — success or a 400 alike — shows
+ * the provider is up and counts as a success. A call failing after its
+ * `abortSignal` fired — the caller gave up, or an enclosing deadline is
+ * spent — counts as neither.
+ *
+ * Meant to sit in front of a `createFallbackModel` hop, which treats
+ * `CircuitOpenError` as retryable and moves straight to the next model.
+ *
+ * @example
+ * ```ts
+ * const breaker = createCircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000, logger });
+ * const model = createFallbackModel({
+ *   primary: createCircuitBreakerModel({
+ *     breaker,
+ *     key: 'openrouter/anthropic/claude-sonnet-4',
+ *     model: provider.model('anthropic/claude-sonnet-4'),
+ *   }),
+ *   fallback: provider.model('openai/gpt-4o-mini'),
+ * });
+ * ```
+ */
+export function createCircuitBreakerModel(options: CircuitBreakerModelOptions): LanguageModel {
+    const { breaker, key } = options;
+    const inner = options.model as LanguageModelV4;
+
+    async function guarded<T>(
+        callOptions: LanguageModelV4CallOptions,
+        call: () => PromiseLike<T>,
+    ): Promise<T> {
+        if (!breaker.tryAcquire(key)) {
+            throw new CircuitOpenError(key);
+        }
+        try {
+            const result = await call();
+            breaker.recordSuccess(key);
+            return result;
+        } catch (error) {
+            if (callOptions.abortSignal?.aborted) {
+                breaker.releaseProbe(key);
+            } else if (isRetryableError(error)) {
+                breaker.recordFailure(key);
+            } else {
+                breaker.recordSuccess(key);
+            }
+            throw error;
+        }
+    }
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        supportedUrls: inner.supportedUrls,
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            return guarded(callOptions, () => inner.doGenerate(callOptions));
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            return guarded(callOptions, () => inner.doStream(callOptions));
+        },
+    };
+
+    return model;
+}
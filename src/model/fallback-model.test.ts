@@ -1,6 +1,9 @@
 import { APICallError } from '@ai-sdk/provider';
-import { describe, expect, test, vi } from 'vitest';
+import { metrics, trace } from '@opentelemetry/api';
+import { wrapLanguageModel } from 'ai';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 
+import { createCostMiddleware } from '../middleware/cost.middleware.js';
 import { createFallbackModel } from './fallback-model.js';
 
 function createMockLogger() {
@@ -34,6 +37,41 @@ function apiCallError(statusCode: number) {
     });
 }
 
+function streamOf(parts: unknown[], failure?: Error) {
+    const queue = [...parts];
+    return {
+        stream: new ReadableStream({
+            pull(controller) {
+                if (queue.length > 0) {
+                    controller.enqueue(queue.shift());
+                } else if (failure) {
+                    controller.error(failure);
+                } else {
+                    controller.close();
+                }
+            },
+        }),
+    };
+}
+
+async function drain(result: unknown): Promise<unknown[]> {
+    const reader = (result as { stream: ReadableStream }).stream.getReader();
+    const parts: unknown[] = [];
+    for (;;) {
+        const chunk = await reader.read();
+        if (chunk.done) {
+            return parts;
+        }
+        parts.push(chunk.value);
+    }
+}
+
+const finishPart = {
+    type: 'finish',
+    finishReason: { unified: 'stop', raw: 'stop' },
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+};
+
 const successResult = {
     content: [{ type: 'text' as const, text: 'ok' }],
     finishReason: 'stop' as const,
@@ -42,6 +80,10 @@ const successResult = {
 };
 
 describe('createFallbackModel', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
     test('returns the primary result when primary succeeds', async () => {
         // Given -- a primary model that succeeds
         const primary = createMockModel('primary', {
@@ -93,8 +135,188 @@ describe('createFallbackModel', () => {
         expect(fallback.doGenerate).toHaveBeenCalledTimes(1);
         expect(logger.warn).toHaveBeenCalledWith(
             'ai.fallback.triggered',
-            expect.objectContaining({ modelIds: ['primary', 'fallback'] }),
+            expect.objectContaining({ hop: 1, modelIds: ['primary', 'fallback'] }),
+        );
+    });
+
+    test('flags on the active span whether a fallback answered', async () => {
+        // Given -- a primary failing once with a 503, then succeeding
+        const span = { setAttribute: vi.fn() };
+        vi.spyOn(trace, 'getActiveSpan').mockReturnValue(span as never);
+        const primary = createMockModel('primary', {
+            doGenerate: vi
+                .fn()
+                .mockRejectedValueOnce(apiCallError(503))
+                .mockResolvedValue(successResult),
+        });
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createFallbackModel({
+            fallback: fallback as never,
+            primary: primary as never,
+        });
+        const generate = (model as never as { doGenerate: (o: unknown) => Promise<unknown> })
+            .doGenerate;
+
+        // When
+        await generate({});
+        await generate({});
+
+        // Then
+        expect(span.setAttribute.mock.calls).toEqual([
+            ['ai.fallback.used', true],
+            ['ai.fallback.used', false],
+        ]);
+    });
+
+    test('counts each switch in the ai.fallbacks metric', async () => {
+        // Given
+        const fallbacks = { add: vi.fn() };
+        vi.spyOn(metrics, 'getMeter').mockReturnValue({
+            createCounter: (name: string) =>
+                name === 'ai.fallbacks' ? fallbacks : { add: vi.fn() },
+            createHistogram: () => ({ record: vi.fn() }),
+        } as never);
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createFallbackModel({
+            agent: 'summarizer',
+            fallback: fallback as never,
+            primary: primary as never,
+        });
+
+        // When
+        await (model as never as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate({});
+
+        // Then -- labeled with the model that failed
+        expect(fallbacks.add).toHaveBeenCalledWith(1, {
+            agent: 'summarizer',
+            model: 'primary',
+            provider: 'test',
+        });
+    });
+
+    test('labels the ai.fallbacks metric with the configured model refs', async () => {
+        // Given -- a gateway model whose SDK provider name isn't its configured key
+        const fallbacks = { add: vi.fn() };
+        vi.spyOn(metrics, 'getMeter').mockReturnValue({
+            createCounter: (name: string) =>
+                name === 'ai.fallbacks' ? fallbacks : { add: vi.fn() },
+            createHistogram: () => ({ record: vi.fn() }),
+        } as never);
+        const primary = createMockModel('llama-3.1-8b', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+            provider: 'openai.chat',
+        });
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createFallbackModel({
+            agent: 'summarizer',
+            fallback: fallback as never,
+            modelRefs: ['local/llama-3.1-8b', 'openrouter/openai/gpt-4o-mini'],
+            primary: primary as never,
+        });
+
+        // When
+        await (model as never as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate({});
+
+        // Then -- the same labels as the hop's cost metrics
+        expect(fallbacks.add).toHaveBeenCalledWith(1, {
+            agent: 'summarizer',
+            model: 'llama-3.1-8b',
+            provider: 'local',
+        });
+    });
+
+    test('walks an ordered fallback chain, logging each hop', async () => {
+        // Given -- a primary and a first fallback both failing with retryable errors
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(429)),
+        });
+        const first = createMockModel('first', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const second = createMockModel('second', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const logger = createMockLogger();
+
+        const model = createFallbackModel({
+            primary: primary as never,
+            fallback: [first as never, second as never],
+            logger,
+        });
+
+        // When
+        const result = await (
+            model as never as { doGenerate: (o: unknown) => Promise<unknown> }
+        ).doGenerate({});
+
+        // Then -- the second fallback answers, and both hops are logged in order
+        expect(result).toBe(successResult);
+        expect(logger.warn).toHaveBeenNthCalledWith(
+            1,
+            'ai.fallback.triggered',
+            expect.objectContaining({ hop: 1, modelIds: ['primary', 'first'] }),
         );
+        expect(logger.warn).toHaveBeenNthCalledWith(
+            2,
+            'ai.fallback.triggered',
+            expect.objectContaining({ hop: 2, modelIds: ['first', 'second'] }),
+        );
+    });
+
+    test('propagates the last error once the chain is exhausted', async () => {
+        // Given -- every model in the chain failing with a retryable error
+        const lastError = apiCallError(502);
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(429)),
+        });
+        const first = createMockModel('first', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const second = createMockModel('second', {
+            doGenerate: vi.fn().mockRejectedValue(lastError),
+        });
+
+        const model = createFallbackModel({
+            primary: primary as never,
+            fallback: [first as never, second as never],
+        });
+
+        // Then
+        await expect(
+            (model as never as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate({}),
+        ).rejects.toBe(lastError);
+    });
+
+    test('stops the chain on a non-retryable error from a fallback', async () => {
+        // Given -- a fallback failing with a 400 ahead of a healthy last model
+        const error = apiCallError(400);
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(500)),
+        });
+        const first = createMockModel('first', {
+            doGenerate: vi.fn().mockRejectedValue(error),
+        });
+        const second = createMockModel('second', { doGenerate: vi.fn() });
+
+        const model = createFallbackModel({
+            primary: primary as never,
+            fallback: [first as never, second as never],
+        });
+
+        // Then -- the 400 propagates and the rest of the chain is skipped
+        await expect(
+            (model as never as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate({}),
+        ).rejects.toBe(error);
+        expect(second.doGenerate).not.toHaveBeenCalled();
     });
 
     test('falls back on a 500 error', async () => {
@@ -229,4 +451,244 @@ describe('createFallbackModel', () => {
         expect((model as never as { modelId: string }).modelId).toBe('primary-model');
         expect((model as never as { provider: string }).provider).toBe('primary-provider');
     });
+
+    describe('midStreamFallback', () => {
+        test('restarts on the fallback when the primary stream errors before committing', async () => {
+            // Given -- a primary stream emitting a retryable error part before any content
+            const primary = createMockModel('primary', {
+                doStream: vi.fn().mockResolvedValue(
+                    streamOf([
+                        { type: 'stream-start', warnings: [] },
+                        { type: 'error', error: apiCallError(503) },
+                    ]),
+                ),
+            });
+            const fallback = createMockModel('fallback', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([
+                            { type: 'text-delta', id: '1', delta: 'from fallback' },
+                            finishPart,
+                        ]),
+                    ),
+            });
+            const logger = createMockLogger();
+
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                logger,
+                midStreamFallback: true,
+                primary: primary as never,
+            });
+
+            // When
+            const parts = await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then -- only the fallback's parts reach the caller
+            expect(parts).toEqual([
+                { type: 'text-delta', id: '1', delta: 'from fallback' },
+                finishPart,
+            ]);
+            expect(logger.warn).toHaveBeenCalledWith(
+                'ai.fallback.triggered',
+                expect.objectContaining({ hop: 1 }),
+            );
+        });
+
+        test('reports the abandoned primary attempt as a failed call', async () => {
+            // Given -- a cost-tracked primary erroring before committing
+            const errors = { add: vi.fn() };
+            vi.spyOn(metrics, 'getMeter').mockReturnValue({
+                createCounter: (name: string) => (name === 'ai.errors' ? errors : { add: vi.fn() }),
+                createHistogram: () => ({ record: vi.fn() }),
+            } as never);
+            const onUsage = vi.fn();
+            const primary = createMockModel('primary', {
+                doStream: vi.fn().mockResolvedValue(
+                    streamOf([
+                        { type: 'stream-start', warnings: [] },
+                        { type: 'error', error: apiCallError(503) },
+                    ]),
+                ),
+            });
+            const fallback = createMockModel('fallback', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([{ type: 'text-delta', id: '1', delta: 'ok' }, finishPart]),
+                    ),
+            });
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                midStreamFallback: true,
+                primary: wrapLanguageModel({
+                    middleware: createCostMiddleware({
+                        agent: 'summarizer',
+                        modelRef: 'test/primary',
+                        onUsage,
+                    }),
+                    model: primary as never,
+                }),
+            });
+
+            // When
+            await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then
+            expect(errors.add).toHaveBeenCalledWith(1, {
+                agent: 'summarizer',
+                model: 'primary',
+                provider: 'test',
+            });
+            expect(onUsage).toHaveBeenCalledWith(
+                expect.objectContaining({ error: true, modelRef: 'test/primary' }),
+            );
+        });
+
+        test('restarts on the fallback when the primary connection resets before committing', async () => {
+            // Given -- a primary stream failing while still buffering
+            const primary = createMockModel('primary', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf(
+                            [{ type: 'stream-start', warnings: [] }],
+                            new Error('read ECONNRESET'),
+                        ),
+                    ),
+            });
+            const fallback = createMockModel('fallback', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([{ type: 'text-delta', id: '1', delta: 'ok' }, finishPart]),
+                    ),
+            });
+
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                midStreamFallback: true,
+                primary: primary as never,
+            });
+
+            // When
+            const parts = await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then
+            expect(parts).toEqual([{ type: 'text-delta', id: '1', delta: 'ok' }, finishPart]);
+        });
+
+        test('surfaces a final error part once the primary has committed', async () => {
+            // Given -- a primary stream failing after its first text delta
+            const failure = new Error('read ECONNRESET');
+            const primary = createMockModel('primary', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([{ type: 'text-delta', id: '1', delta: 'partial' }], failure),
+                    ),
+            });
+            const fallback = createMockModel('fallback', { doStream: vi.fn() });
+            const logger = createMockLogger();
+
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                logger,
+                midStreamFallback: true,
+                primary: primary as never,
+            });
+
+            // When
+            const parts = await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then -- no switch happens: the partial output ends with an error part
+            expect(parts).toEqual([
+                { type: 'text-delta', id: '1', delta: 'partial' },
+                { type: 'error', error: failure },
+            ]);
+            expect(fallback.doStream).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith(
+                'ai.fallback.too_late',
+                expect.objectContaining({ modelId: 'primary' }),
+            );
+        });
+
+        test('honors a custom commit point', async () => {
+            // Given -- buffering until the finish part, and an error after the first delta
+            const primary = createMockModel('primary', {
+                doStream: vi.fn().mockResolvedValue(
+                    streamOf([
+                        { type: 'text-delta', id: '1', delta: 'partial' },
+                        { type: 'error', error: apiCallError(500) },
+                    ]),
+                ),
+            });
+            const fallback = createMockModel('fallback', {
+                doStream: vi
+                    .fn()
+                    .mockResolvedValue(
+                        streamOf([{ type: 'text-delta', id: '1', delta: 'complete' }, finishPart]),
+                    ),
+            });
+
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                midStreamFallback: { commitOn: (part) => part.type === 'finish' },
+                primary: primary as never,
+            });
+
+            // When
+            const parts = await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then -- the buffered partial output is discarded in favor of the fallback
+            expect(parts).toEqual([{ type: 'text-delta', id: '1', delta: 'complete' }, finishPart]);
+        });
+
+        test('passes a non-retryable error part through without switching', async () => {
+            // Given -- a primary stream emitting a 400 error part
+            const error = apiCallError(400);
+            const primary = createMockModel('primary', {
+                doStream: vi.fn().mockResolvedValue(streamOf([{ type: 'error', error }])),
+            });
+            const fallback = createMockModel('fallback', { doStream: vi.fn() });
+
+            const model = createFallbackModel({
+                fallback: fallback as never,
+                midStreamFallback: true,
+                primary: primary as never,
+            });
+
+            // When
+            const parts = await drain(
+                await (model as never as { doStream: (o: unknown) => Promise<unknown> }).doStream(
+                    {},
+                ),
+            );
+
+            // Then
+            expect(parts).toEqual([{ type: 'error', error }]);
+            expect(fallback.doStream).not.toHaveBeenCalled();
+        });
+    });
 });
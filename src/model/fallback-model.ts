@@ -1,45 +1,97 @@
-import {
-    APICallError,
-    type LanguageModelV4,
-    type LanguageModelV4CallOptions,
+import type {
+    LanguageModelV4,
+    LanguageModelV4CallOptions,
+    LanguageModelV4StreamPart,
+    LanguageModelV4StreamResult,
 } from '@ai-sdk/provider';
 import type { LoggerPort } from '@jterrazz/telemetry';
+import { trace } from '@opentelemetry/api';
 import type { LanguageModel } from 'ai';
 
-const RETRYABLE_MESSAGE_PATTERNS = [
-    /ECONNREFUSED/i,
-    /ECONNRESET/i,
-    /ETIMEDOUT/i,
-    /EAI_AGAIN/i,
-    /ENOTFOUND/i,
-    /timed?\s*out/i,
-    /network/i,
-    /fetch failed/i,
-];
-
-function isRetryableError(error: unknown): boolean {
-    if (APICallError.isInstance(error)) {
-        if (typeof error.statusCode === 'number') {
-            return error.statusCode === 429 || error.statusCode >= 500;
-        }
-        return error.isRetryable;
+import { labelsOf, recordFallbackMetric } from '../metrics/ai-metrics.js';
+import { isRetryableError } from './retryable-error.js';
+
+const FALLBACK_USED_ATTRIBUTE = 'ai.fallback.used';
+
+const CONTENT_PART_TYPES = new Set<LanguageModelV4StreamPart['type']>([
+    'file',
+    'reasoning-delta',
+    'source',
+    'text-delta',
+    'tool-call',
+    'tool-input-start',
+    'tool-result',
+]);
+
+function isContentPart(part: LanguageModelV4StreamPart): boolean {
+    return CONTENT_PART_TYPES.has(part.type);
+}
+
+function recordFallbackUsed(used: boolean): void {
+    try {
+        trace.getActiveSpan()?.setAttribute(FALLBACK_USED_ATTRIBUTE, used);
+    } catch {
+        // Best-effort: telemetry enrichment must never break generation.
     }
+}
 
-    const message = error instanceof Error ? error.message : String(error);
-    return RETRYABLE_MESSAGE_PATTERNS.some((pattern) => pattern.test(message));
+function release(
+    reader: ReadableStreamDefaultReader<LanguageModelV4StreamPart>,
+    reason: unknown,
+): void {
+    reader.cancel(reason).catch(() => {
+        // The stream already errored: there is nothing left to release.
+    });
+}
+
+export interface MidStreamFallbackOptions {
+    /**
+     * Commit point: buffering ends at the first part for which this returns
+     * `true` (default: the first content part — text, reasoning, tool call,
+     * file or source)
+     */
+    commitOn?: (part: LanguageModelV4StreamPart) => boolean;
 }
 
 export interface FallbackModelOptions {
     primary: LanguageModel;
-    fallback: LanguageModel;
+    /** Model, or ordered chain of models, tried in turn after the primary fails */
+    fallback: LanguageModel | LanguageModel[];
+    /**
+     * Also fall back when a stream fails after it opened, as long as it fails
+     * before its commit point. Opt-in: the stream is buffered until then.
+     */
+    midStreamFallback?: boolean | MidStreamFallbackOptions;
     logger?: LoggerPort;
+    /** Agent the calls are made for, used as the `agent` metric label */
+    agent?: string;
+    /**
+     * `"<provider>/<model>"` of each model of the chain, primary first, used
+     * as the `provider` and `model` metric labels — as for the cost
+     * middleware's `modelRef` (default: each model's provider name and id)
+     */
+    modelRefs?: string[];
 }
 
 /**
- * Creates a `LanguageModelV4` that transparently falls back to a secondary
- * model when the primary model fails with a retryable error (HTTP 429, 5xx,
- * network errors/timeouts). Non-retryable errors (400s, validation, abort)
- * propagate unchanged.
+ * Creates a `LanguageModelV4` that transparently falls back along an ordered
+ * chain of models when the current one fails with a retryable error (HTTP
+ * 429, 5xx, network errors/timeouts). Non-retryable errors (400s, validation,
+ * abort) propagate unchanged, and the last model's error propagates once the
+ * chain is exhausted or the call's `abortSignal` has fired.
+ *
+ * By default, `doStream` only falls back when opening the stream fails. With
+ * `midStreamFallback`, parts are held back until the commit point (the first
+ * content part, by default): an `error` part or a broken connection before
+ * it transparently restarts the call on the next model. Past the commit
+ * point, output has reached the caller and switching would duplicate it, so
+ * an `error` part is passed through as-is and a broken connection surfaces
+ * as a final `error` part that closes the stream (logged as
+ * `ai.fallback.too_late`).
+ *
+ * Every call that succeeds sets `ai.fallback.used` on the active
+ * OpenTelemetry span: `true` when a fallback answered instead of the primary.
+ * Each switch also counts towards the `ai.fallbacks` metric.
  *
  * This is a model, not a middleware — middleware cannot switch the
  * underlying model, only transform a single model's behavior.
@@ -48,23 +100,140 @@ export interface FallbackModelOptions {
  * ```ts
  * const model = createFallbackModel({
  *   primary: provider.model('anthropic/claude-sonnet-4'),
- *   fallback: provider.model('openai/gpt-4o-mini'),
+ *   fallback: [provider.model('openai/gpt-4o'), gateway.model('local-model')],
  *   logger,
  * });
  * ```
  */
 export function createFallbackModel(options: FallbackModelOptions): LanguageModel {
-    const { primary, fallback, logger } = options;
+    const { agent, primary, fallback, logger, midStreamFallback, modelRefs } = options;
     const primaryModel = primary as LanguageModelV4;
-    const fallbackModel = fallback as LanguageModelV4;
+    const commitOn =
+        (typeof midStreamFallback === 'object' && midStreamFallback.commitOn) || isContentPart;
+    const chain = [primary, ...(Array.isArray(fallback) ? fallback : [fallback])].map(
+        (model) => model as LanguageModelV4,
+    );
+
+    function modelRefOf(hop: number): string {
+        const model = chain[hop];
+        // AI SDK provider names carry the API flavor, e.g. `'openai.chat'`.
+        return modelRefs?.[hop] ?? `${model.provider.split('.')[0]}/${model.modelId}`;
+    }
 
-    function logFallback(error: unknown): void {
+    function logFallback(hop: number, error: unknown): void {
+        recordFallbackMetric(labelsOf(modelRefOf(hop - 1), agent));
         logger?.warn('ai.fallback.triggered', {
-            modelIds: [primaryModel.modelId, fallbackModel.modelId],
+            hop,
+            modelIds: [chain[hop - 1].modelId, chain[hop].modelId],
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+
+    async function runChain<T>(
+        callOptions: LanguageModelV4CallOptions,
+        call: (model: LanguageModelV4, isLast: boolean) => PromiseLike<T>,
+    ): Promise<T> {
+        for (let index = 0; ; index++) {
+            const isLast = index === chain.length - 1;
+            try {
+                const result = await call(chain[index], isLast);
+                recordFallbackUsed(index > 0);
+                return result;
+            } catch (error) {
+                // An aborted call signal means the caller gave up, or an
+                // Enclosing deadline is spent: no fallback can help anymore.
+                if (isLast || callOptions.abortSignal?.aborted || !isRetryableError(error)) {
+                    throw error;
+                }
+                logFallback(index + 1, error);
+            }
+        }
+    }
+
+    /**
+     * Replays the parts buffered before the commit point, then keeps reading
+     * from the committed model. A read failure from here on can no longer
+     * fall back, so it is turned into a final `error` part.
+     */
+    function committedStream(
+        current: LanguageModelV4,
+        buffered: LanguageModelV4StreamPart[],
+        reader: ReadableStreamDefaultReader<LanguageModelV4StreamPart>,
+    ): ReadableStream<LanguageModelV4StreamPart> {
+        return new ReadableStream<LanguageModelV4StreamPart>({
+            start(controller) {
+                for (const part of buffered) {
+                    controller.enqueue(part);
+                }
+            },
+            async pull(controller) {
+                try {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        controller.close();
+                        return;
+                    }
+                    if (value.type === 'error') {
+                        logTooLate(current, value.error);
+                    }
+                    controller.enqueue(value);
+                } catch (error) {
+                    logTooLate(current, error);
+                    controller.enqueue({ error, type: 'error' });
+                    controller.close();
+                }
+            },
+            cancel(reason) {
+                return reader.cancel(reason);
+            },
+        });
+    }
+
+    function logTooLate(current: LanguageModelV4, error: unknown): void {
+        logger?.warn('ai.fallback.too_late', {
+            modelId: current.modelId,
             error: error instanceof Error ? error.message : String(error),
         });
     }
 
+    /**
+     * Opens a stream on `current` and holds its parts back until the commit
+     * point. Failing before it — retryable `error` part or read failure —
+     * throws, so `runChain` moves on to the next model.
+     */
+    async function streamUntilCommitted(
+        current: LanguageModelV4,
+        callOptions: LanguageModelV4CallOptions,
+    ): Promise<LanguageModelV4StreamResult> {
+        const result = await current.doStream(callOptions);
+        const reader = result.stream.getReader();
+        const buffered: LanguageModelV4StreamPart[] = [];
+
+        for (;;) {
+            let next: ReadableStreamReadResult<LanguageModelV4StreamPart>;
+            try {
+                next = await reader.read();
+            } catch (error) {
+                release(reader, error);
+                throw error;
+            }
+
+            if (next.done) {
+                break;
+            }
+            if (next.value.type === 'error' && isRetryableError(next.value.error)) {
+                release(reader, next.value.error);
+                throw next.value.error;
+            }
+            buffered.push(next.value);
+            if (next.value.type === 'error' || commitOn(next.value)) {
+                break;
+            }
+        }
+
+        return { ...result, stream: committedStream(current, buffered, reader) };
+    }
+
     const model: LanguageModelV4 = {
         specificationVersion: 'v4',
         provider: primaryModel.provider,
@@ -72,27 +241,15 @@ export function createFallbackModel(options: FallbackModelOptions): LanguageMode
         supportedUrls: primaryModel.supportedUrls,
 
         async doGenerate(callOptions: LanguageModelV4CallOptions) {
-            try {
-                return await primaryModel.doGenerate(callOptions);
-            } catch (error) {
-                if (!isRetryableError(error)) {
-                    throw error;
-                }
-                logFallback(error);
-                return fallbackModel.doGenerate(callOptions);
-            }
+            return runChain(callOptions, (current) => current.doGenerate(callOptions));
         },
 
         async doStream(callOptions: LanguageModelV4CallOptions) {
-            try {
-                return await primaryModel.doStream(callOptions);
-            } catch (error) {
-                if (!isRetryableError(error)) {
-                    throw error;
-                }
-                logFallback(error);
-                return fallbackModel.doStream(callOptions);
-            }
+            return runChain(callOptions, (current, isLast) =>
+                midStreamFallback && !isLast
+                    ? streamUntilCommitted(current, callOptions)
+                    : current.doStream(callOptions),
+            );
         },
     };
 
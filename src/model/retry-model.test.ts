@@ -0,0 +1,222 @@
+import { APICallError } from '@ai-sdk/provider';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createRetryModel } from './retry-model.js';
+
+function createMockLogger() {
+    return {
+        child: vi.fn(() => createMockLogger()),
+        debug: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+    };
+}
+
+function createMockModel(modelId: string, overrides: Record<string, unknown> = {}) {
+    return {
+        modelId,
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+        ...overrides,
+    };
+}
+
+function apiCallError(statusCode: number, responseHeaders?: Record<string, string>) {
+    return new APICallError({
+        message: `HTTP ${statusCode}`,
+        url: 'https://example.com',
+        requestBodyValues: {},
+        statusCode,
+        responseHeaders,
+    });
+}
+
+const successResult = {
+    content: [{ type: 'text' as const, text: 'ok' }],
+    finishReason: 'stop' as const,
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+    warnings: [],
+};
+
+function doGenerate(model: unknown, options: Record<string, unknown> = {}): Promise<unknown> {
+    return (model as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate(options);
+}
+
+describe('createRetryModel', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('retries a retryable error with exponential backoff, then succeeds', async () => {
+        // Given -- a model failing twice with a 503 before succeeding
+        const inner = createMockModel('primary', {
+            doGenerate: vi
+                .fn()
+                .mockRejectedValueOnce(apiCallError(503))
+                .mockRejectedValueOnce(apiCallError(503))
+                .mockResolvedValue(successResult),
+        });
+        const logger = createMockLogger();
+        const model = createRetryModel({
+            logger,
+            model: inner as never,
+            policy: { baseDelayMs: 100, jitter: false, maxAttempts: 3 },
+        });
+
+        // When
+        const pending = doGenerate(model);
+        await vi.runAllTimersAsync();
+
+        // Then -- the delays double between attempts and the third attempt answers
+        await expect(pending).resolves.toBe(successResult);
+        expect(inner.doGenerate).toHaveBeenCalledTimes(3);
+        expect(logger.warn).toHaveBeenNthCalledWith(
+            1,
+            'ai.retry.scheduled',
+            expect.objectContaining({ attempt: 1, delayMs: 100 }),
+        );
+        expect(logger.warn).toHaveBeenNthCalledWith(
+            2,
+            'ai.retry.scheduled',
+            expect.objectContaining({ attempt: 2, delayMs: 200 }),
+        );
+    });
+
+    test('propagates the last error once maxAttempts is reached', async () => {
+        // Given -- a model that keeps failing with a 429
+        const error = apiCallError(429);
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(error),
+        });
+        const model = createRetryModel({
+            model: inner as never,
+            policy: { baseDelayMs: 10, maxAttempts: 2 },
+        });
+
+        // When
+        const pending = doGenerate(model);
+        const assertion = expect(pending).rejects.toBe(error);
+        await vi.runAllTimersAsync();
+
+        // Then
+        await assertion;
+        expect(inner.doGenerate).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not retry a non-retryable error', async () => {
+        // Given -- a model failing with a 400
+        const error = apiCallError(400);
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(error),
+        });
+        const model = createRetryModel({ model: inner as never });
+
+        // Then
+        await expect(doGenerate(model)).rejects.toBe(error);
+        expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+    });
+
+    test.each([408, 409])(
+        'does not retry a %i, though the AI SDK flags it retryable',
+        async (status) => {
+            // Given
+            const error = apiCallError(status);
+            const inner = createMockModel('primary', {
+                doGenerate: vi.fn().mockRejectedValue(error),
+            });
+            const model = createRetryModel({ model: inner as never });
+
+            // Then
+            expect(error.isRetryable).toBe(true);
+            await expect(doGenerate(model)).rejects.toBe(error);
+            expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+        },
+    );
+
+    test('honors the Retry-After header over the computed backoff', async () => {
+        // Given -- a 429 asking to retry after 2 seconds
+        const inner = createMockModel('primary', {
+            doGenerate: vi
+                .fn()
+                .mockRejectedValueOnce(apiCallError(429, { 'Retry-After': '2' }))
+                .mockResolvedValue(successResult),
+        });
+        const logger = createMockLogger();
+        const model = createRetryModel({
+            logger,
+            model: inner as never,
+            policy: { baseDelayMs: 100 },
+        });
+
+        // When
+        const pending = doGenerate(model);
+        await vi.advanceTimersByTimeAsync(1999);
+
+        // Then -- nothing is retried before the requested delay elapses
+        expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(pending).resolves.toBe(successResult);
+        expect(logger.warn).toHaveBeenCalledWith(
+            'ai.retry.scheduled',
+            expect.objectContaining({ delayMs: 2000 }),
+        );
+    });
+
+    test('gives up immediately when Retry-After exceeds maxDelayMs', async () => {
+        // Given -- a 429 asking to retry after ten minutes
+        const error = apiCallError(429, { 'retry-after': '600' });
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(error),
+        });
+        const model = createRetryModel({
+            model: inner as never,
+            policy: { maxDelayMs: 5000 },
+        });
+
+        // Then -- the error propagates without waiting, leaving room for a fallback
+        await expect(doGenerate(model)).rejects.toBe(error);
+        expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+    });
+
+    test('stops waiting when the call is aborted', async () => {
+        // Given -- a retry scheduled far in the future and a caller-side abort
+        const controller = new AbortController();
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockRejectedValue(apiCallError(503)),
+        });
+        const model = createRetryModel({
+            model: inner as never,
+            policy: { baseDelayMs: 10_000 },
+        });
+
+        // When
+        const pending = doGenerate(model, { abortSignal: controller.signal });
+        const assertion = expect(pending).rejects.toThrow();
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+
+        // Then -- the abort reason propagates and no further attempt is made
+        await assertion;
+        expect(inner.doGenerate).toHaveBeenCalledTimes(1);
+    });
+
+    test('delegates static properties to the wrapped model', () => {
+        // Given
+        const inner = createMockModel('primary-model', { provider: 'primary-provider' });
+
+        // When
+        const model = createRetryModel({ model: inner as never });
+
+        // Then
+        expect((model as never as { modelId: string }).modelId).toBe('primary-model');
+        expect((model as never as { provider: string }).provider).toBe('primary-provider');
+    });
+});
@@ -0,0 +1,161 @@
+import {
+    APICallError,
+    type LanguageModelV4,
+    type LanguageModelV4CallOptions,
+} from '@ai-sdk/provider';
+import type { LoggerPort } from '@jterrazz/telemetry';
+import type { LanguageModel } from 'ai';
+
+import { isRetryableError } from './retryable-error.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+export interface RetryPolicy {
+    /** Total attempts against the same model, including the first one (default: 3) */
+    maxAttempts?: number;
+    /** Delay before the first retry, doubled on every following retry (default: 500) */
+    baseDelayMs?: number;
+    /** Upper bound for a single delay, `Retry-After` included (default: 30000) */
+    maxDelayMs?: number;
+    /** Randomize each backoff delay between 50% and 100% of its value (default: true) */
+    jitter?: boolean;
+}
+
+/**
+ * Reads the delay a provider asked for, from `retry-after-ms` (OpenAI-style)
+ * or the standard `Retry-After` header (seconds or an HTTP date).
+ */
+function parseRetryAfterMs(error: unknown): number | undefined {
+    if (!APICallError.isInstance(error) || !error.responseHeaders) {
+        return undefined;
+    }
+
+    const headers = Object.fromEntries(
+        Object.entries(error.responseHeaders).map(([name, value]) => [name.toLowerCase(), value]),
+    );
+
+    const retryAfterMs = Number.parseFloat(headers['retry-after-ms'] ?? '');
+    if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+        return retryAfterMs;
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (retryAfter === undefined) {
+        return undefined;
+    }
+    const seconds = Number.parseFloat(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+        return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        function onAbort(): void {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface RetryModelOptions {
+    model: LanguageModel;
+    policy?: RetryPolicy;
+    logger?: LoggerPort;
+}
+
+/**
+ * Creates a `LanguageModelV4` that retries the same model with exponential
+ * backoff on retryable errors (HTTP 429, 5xx, network errors/timeouts),
+ * before anything else — typically a fallback chain — gets to see the error.
+ *
+ * A `Retry-After` (or `retry-after-ms`) response header takes precedence over
+ * the computed backoff. When the provider asks for longer than `maxDelayMs`,
+ * the error propagates immediately instead: waiting that long is rarely
+ * better than switching models. Delays are cut short when the call's
+ * `abortSignal` fires. For `doStream`, only failures to open the stream are
+ * retried.
+ *
+ * @example
+ * ```ts
+ * const model = createRetryModel({
+ *   model: provider.model('anthropic/claude-sonnet-4'),
+ *   policy: { maxAttempts: 4, baseDelayMs: 250 },
+ *   logger,
+ * });
+ * ```
+ */
+export function createRetryModel(options: RetryModelOptions): LanguageModel {
+    const { logger, policy = {} } = options;
+    const {
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        jitter = true,
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    } = policy;
+    const inner = options.model as LanguageModelV4;
+
+    function backoffDelayMs(retry: number): number {
+        const delay = Math.min(baseDelayMs * 2 ** (retry - 1), maxDelayMs);
+        return jitter ? delay * (0.5 + Math.random() / 2) : delay;
+    }
+
+    async function withRetry<T>(
+        callOptions: LanguageModelV4CallOptions,
+        call: () => PromiseLike<T>,
+    ): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await call();
+            } catch (error) {
+                if (attempt >= maxAttempts || !isRetryableError(error)) {
+                    throw error;
+                }
+
+                const retryAfterMs = parseRetryAfterMs(error);
+                if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+                    throw error;
+                }
+                const delayMs = retryAfterMs ?? backoffDelayMs(attempt);
+
+                logger?.warn('ai.retry.scheduled', {
+                    modelId: inner.modelId,
+                    attempt,
+                    delayMs: Math.round(delayMs),
+                    error: error instanceof Error ? error.message : String(error),
+                });
+                await sleep(delayMs, callOptions.abortSignal);
+            }
+        }
+    }
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        supportedUrls: inner.supportedUrls,
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            return withRetry(callOptions, () => inner.doGenerate(callOptions));
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            return withRetry(callOptions, () => inner.doStream(callOptions));
+        },
+    };
+
+    return model;
+}
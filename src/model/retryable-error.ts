@@ -0,0 +1,33 @@
+import { APICallError } from '@ai-sdk/provider';
+
+const RETRYABLE_MESSAGE_PATTERNS = [
+    /ECONNREFUSED/i,
+    /ECONNRESET/i,
+    /ETIMEDOUT/i,
+    /EAI_AGAIN/i,
+    /ENOTFOUND/i,
+    /timed?\s*out/i,
+    /network/i,
+    /fetch failed/i,
+];
+
+/**
+ * Whether an error is worth another attempt — on the same model or on the
+ * next one in a fallback chain: HTTP 429, 5xx, network errors/timeouts, and
+ * this package's own errors flagged `isRetryable` (e.g. `CircuitOpenError`).
+ */
+export function isRetryableError(error: unknown): boolean {
+    // Checked first: the AI SDK also flags 408 and 409 responses as retryable.
+    if (APICallError.isInstance(error)) {
+        if (typeof error.statusCode === 'number') {
+            return error.statusCode === 429 || error.statusCode >= 500;
+        }
+        return error.isRetryable;
+    }
+    if (error instanceof Error && (error as { isRetryable?: unknown }).isRetryable === true) {
+        return true;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return RETRYABLE_MESSAGE_PATTERNS.some((pattern) => pattern.test(message));
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { createFallbackModel } from './fallback-model.js';
+import { createTimeoutModel, ModelTimeoutError } from './timeout-model.js';
+
+function createMockModel(modelId: string, overrides: Record<string, unknown> = {}) {
+    return {
+        modelId,
+        provider: 'test',
+        specificationVersion: 'v4' as const,
+        supportedUrls: {},
+        doGenerate: vi.fn(),
+        doStream: vi.fn(),
+        ...overrides,
+    };
+}
+
+/** A call that never settles on its own, like a hung gateway ignoring its abort signal */
+function hang(): Promise<never> {
+    return new Promise(() => {});
+}
+
+const successResult = {
+    content: [{ type: 'text' as const, text: 'ok' }],
+    finishReason: 'stop' as const,
+    usage: { inputTokens: { total: 1 }, outputTokens: { total: 1 } },
+    warnings: [],
+};
+
+function doGenerate(model: unknown, options: Record<string, unknown> = {}): Promise<unknown> {
+    return (model as { doGenerate: (o: unknown) => Promise<unknown> }).doGenerate(options);
+}
+
+describe('createTimeoutModel', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('rejects a hung call with a ModelTimeoutError and aborts its signal', async () => {
+        // Given -- a model that never answers
+        const inner = createMockModel('primary', { doGenerate: vi.fn(hang) });
+        const model = createTimeoutModel({ model: inner as never, timeoutMs: 1000 });
+
+        // When
+        const pending = doGenerate(model);
+        const assertion = expect(pending).rejects.toBeInstanceOf(ModelTimeoutError);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        // Then -- the provider saw its signal fire
+        await assertion;
+        const { abortSignal } = inner.doGenerate.mock.calls[0][0];
+        expect(abortSignal.aborted).toBe(true);
+    });
+
+    test('returns the result of a call finishing in time', async () => {
+        // Given
+        const inner = createMockModel('primary', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createTimeoutModel({ model: inner as never, timeoutMs: 1000 });
+
+        // Then
+        await expect(doGenerate(model)).resolves.toBe(successResult);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    test('forwards the caller abort to the wrapped model', async () => {
+        // Given
+        const controller = new AbortController();
+        const inner = createMockModel('primary', { doGenerate: vi.fn(hang) });
+        const model = createTimeoutModel({ model: inner as never, timeoutMs: 1000 });
+
+        // When
+        const pending = doGenerate(model, { abortSignal: controller.signal });
+        controller.abort(new Error('caller gave up'));
+
+        // Then -- the caller's reason propagates, not a timeout
+        await expect(pending).rejects.toThrow('caller gave up');
+        expect(inner.doGenerate.mock.calls[0][0].abortSignal.aborted).toBe(true);
+    });
+
+    test('errors a stream that stalls after opening', async () => {
+        // Given -- a stream emitting one part, then nothing
+        const inner = createMockModel('primary', {
+            doStream: vi.fn().mockResolvedValue({
+                stream: new ReadableStream({
+                    start(controller) {
+                        controller.enqueue({ type: 'stream-start', warnings: [] });
+                    },
+                }),
+            }),
+        });
+        const model = createTimeoutModel({ model: inner as never, timeoutMs: 1000 });
+
+        // When
+        const result = await (
+            model as never as { doStream: (o: unknown) => Promise<{ stream: ReadableStream }> }
+        ).doStream({});
+        const reader = result.stream.getReader();
+        await reader.read();
+        const next = reader.read();
+        const assertion = expect(next).rejects.toBeInstanceOf(ModelTimeoutError);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        // Then
+        await assertion;
+    });
+
+    test('treats the timeout as retryable, handing the next model the remaining budget', async () => {
+        // Given -- a per-attempt timeout on the primary, inside a total deadline
+        const primary = createMockModel('primary', { doGenerate: vi.fn(hang) });
+        const fallback = createMockModel('fallback', { doGenerate: vi.fn(hang) });
+        const model = createTimeoutModel({
+            model: createFallbackModel({
+                fallback: fallback as never,
+                primary: createTimeoutModel({ model: primary as never, timeoutMs: 600 }),
+            }),
+            timeoutMs: 1000,
+        });
+
+        // When
+        const pending = doGenerate(model);
+        const assertion = expect(pending).rejects.toThrow('timed out after 1000ms');
+        await vi.advanceTimersByTimeAsync(600);
+
+        // Then -- the fallback is called, but only gets the 400ms left
+        expect(fallback.doGenerate).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(400);
+        await assertion;
+    });
+
+    test('stops walking the fallback chain once the deadline is spent', async () => {
+        // Given -- a primary rejecting with the (retryable) abort reason as the deadline fires
+        const primary = createMockModel('primary', {
+            doGenerate: vi.fn(
+                ({ abortSignal }: { abortSignal: AbortSignal }) =>
+                    new Promise((_, reject) => {
+                        abortSignal.addEventListener('abort', () => reject(abortSignal.reason));
+                    }),
+            ),
+        });
+        const fallback = createMockModel('fallback', {
+            doGenerate: vi.fn().mockResolvedValue(successResult),
+        });
+        const model = createTimeoutModel({
+            model: createFallbackModel({ fallback: fallback as never, primary: primary as never }),
+            timeoutMs: 1000,
+        });
+
+        // When
+        const pending = doGenerate(model);
+        const assertion = expect(pending).rejects.toBeInstanceOf(ModelTimeoutError);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        // Then
+        await assertion;
+        expect(fallback.doGenerate).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,146 @@
+import type {
+    LanguageModelV4,
+    LanguageModelV4CallOptions,
+    LanguageModelV4StreamPart,
+    LanguageModelV4StreamResult,
+} from '@ai-sdk/provider';
+import type { LanguageModel } from 'ai';
+
+/**
+ * Thrown when a model call outlives its timeout. Classified as retryable, so
+ * a fallback chain moves on to the next model — within whatever remains of
+ * an enclosing deadline.
+ */
+export class ModelTimeoutError extends Error {
+    readonly isRetryable = true;
+    readonly timeoutMs: number;
+
+    constructor(modelId: string, timeoutMs: number) {
+        super(`Model "${modelId}" timed out after ${timeoutMs}ms`);
+        this.name = 'ModelTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+export interface TimeoutModelOptions {
+    model: LanguageModel;
+    /** Time a call may take, from the request until the last stream part */
+    timeoutMs: number;
+}
+
+/**
+ * Creates a `LanguageModelV4` that aborts calls taking longer than
+ * `timeoutMs`, through an abort signal combined with the caller's own
+ * `abortSignal`. A timed-out call rejects — or, for a stream already
+ * flowing, errors — with a `ModelTimeoutError`.
+ *
+ * Because the combined signal is what the wrapped model receives, wrapping a
+ * whole fallback chain turns `timeoutMs` into a total deadline: every hop
+ * inherits the remaining budget instead of a fresh one, and
+ * `createFallbackModel` stops walking the chain once it is spent.
+ *
+ * @example
+ * ```ts
+ * const model = createTimeoutModel({
+ *   model: createFallbackModel({ primary, fallback }),
+ *   timeoutMs: 30_000,
+ * });
+ * ```
+ */
+export function createTimeoutModel(options: TimeoutModelOptions): LanguageModel {
+    const { timeoutMs } = options;
+    const inner = options.model as LanguageModelV4;
+
+    function startTimer(callOptions: LanguageModelV4CallOptions) {
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            controller.abort(new ModelTimeoutError(inner.modelId, timeoutMs));
+        }, timeoutMs);
+        const abortSignal = callOptions.abortSignal
+            ? AbortSignal.any([callOptions.abortSignal, controller.signal])
+            : controller.signal;
+
+        return {
+            callOptions: { ...callOptions, abortSignal },
+            clear: () => clearTimeout(timer),
+            /**
+             * Settles with `promise`, or rejects as soon as the signal fires —
+             * a provider ignoring its abort signal must not stall the caller.
+             */
+            race: <T>(promise: PromiseLike<T>): Promise<T> =>
+                new Promise<T>((resolve, reject) => {
+                    const onAbort = () => reject(abortSignal.reason);
+                    if (abortSignal.aborted) {
+                        onAbort();
+                        return;
+                    }
+                    abortSignal.addEventListener('abort', onAbort, { once: true });
+                    Promise.resolve(promise)
+                        .then(resolve, reject)
+                        .finally(() => abortSignal.removeEventListener('abort', onAbort));
+                }),
+            /** The timeout error if this timer fired, the original error otherwise */
+            toError: (error: unknown): unknown =>
+                controller.signal.aborted ? controller.signal.reason : error,
+        };
+    }
+
+    const model: LanguageModelV4 = {
+        specificationVersion: 'v4',
+        provider: inner.provider,
+        modelId: inner.modelId,
+        supportedUrls: inner.supportedUrls,
+
+        async doGenerate(callOptions: LanguageModelV4CallOptions) {
+            const timer = startTimer(callOptions);
+            try {
+                return await timer.race(inner.doGenerate(timer.callOptions));
+            } catch (error) {
+                throw timer.toError(error);
+            } finally {
+                timer.clear();
+            }
+        },
+
+        async doStream(callOptions: LanguageModelV4CallOptions) {
+            const timer = startTimer(callOptions);
+            let result: LanguageModelV4StreamResult;
+            try {
+                result = await timer.race(inner.doStream(timer.callOptions));
+            } catch (error) {
+                timer.clear();
+                throw timer.toError(error);
+            }
+
+            const reader = result.stream.getReader();
+            return {
+                ...result,
+                stream: new ReadableStream<LanguageModelV4StreamPart>({
+                    async pull(controller) {
+                        try {
+                            const { done, value } = await timer.race(reader.read());
+                            if (done) {
+                                timer.clear();
+                                controller.close();
+                                return;
+                            }
+                            controller.enqueue(value);
+                        } catch (error) {
+                            timer.clear();
+                            controller.error(timer.toError(error));
+                            reader.cancel(error).catch(() => {
+                                // The source already errored: nothing left to release.
+                            });
+                        }
+                    },
+                    cancel(reason) {
+                        timer.clear();
+                        return reader.cancel(reason);
+                    },
+                }),
+            };
+        },
+    };
+
+    return model;
+}
@@ -0,0 +1,42 @@
+/**
+ * GENERATED FILE — do not edit, run `npm run generate:pricing`.
+ *
+ * Source: an OpenRouter model list (see scripts/generate-pricing-catalogue.ts
+ * for the pipeline), keyed by OpenRouter model id. Token rates are in USD per
+ * million tokens, `perRequest` in USD per call.
+ *
+ * Models: 29 (anthropic: 9, google: 5, mistralai: 4, openai: 11)
+ */
+import type { CostPricing } from '../middleware/cost.middleware.js';
+
+export const GENERATED_PRICING: Readonly<Record<string, CostPricing>> = {
+    'anthropic/claude-3-haiku': { cacheRead: 0.03, cacheWrite: 0.3, input: 0.25, output: 1.25 },
+    'anthropic/claude-3.5-haiku': { cacheRead: 0.08, cacheWrite: 1, input: 0.8, output: 4 },
+    'anthropic/claude-3.5-sonnet': { cacheRead: 0.3, cacheWrite: 3.75, input: 3, output: 15 },
+    'anthropic/claude-3.7-sonnet': { cacheRead: 0.3, cacheWrite: 3.75, input: 3, output: 15 },
+    'anthropic/claude-haiku-4.5': { cacheRead: 0.1, cacheWrite: 1.25, input: 1, output: 5 },
+    'anthropic/claude-opus-4': { cacheRead: 1.5, cacheWrite: 18.75, input: 15, output: 75 },
+    'anthropic/claude-opus-4.1': { cacheRead: 1.5, cacheWrite: 18.75, input: 15, output: 75 },
+    'anthropic/claude-sonnet-4': { cacheRead: 0.3, cacheWrite: 3.75, input: 3, output: 15 },
+    'anthropic/claude-sonnet-4.5': { cacheRead: 0.3, cacheWrite: 3.75, input: 3, output: 15 },
+    'google/gemini-2.0-flash-001': { cacheRead: 0.025, input: 0.1, output: 0.4 },
+    'google/gemini-2.0-flash-lite-001': { input: 0.075, output: 0.3 },
+    'google/gemini-2.5-flash': { cacheRead: 0.03, input: 0.3, output: 2.5 },
+    'google/gemini-2.5-flash-lite': { cacheRead: 0.01, input: 0.1, output: 0.4 },
+    'google/gemini-2.5-pro': { cacheRead: 0.125, input: 1.25, output: 10 },
+    'mistralai/codestral-2501': { input: 0.3, output: 0.9 },
+    'mistralai/mistral-large': { input: 2, output: 6 },
+    'mistralai/mistral-medium-3': { input: 0.4, output: 2 },
+    'mistralai/mistral-small-3.2-24b-instruct': { input: 0.1, output: 0.3 },
+    'openai/gpt-4.1': { cacheRead: 0.5, input: 2, output: 8 },
+    'openai/gpt-4.1-mini': { cacheRead: 0.1, input: 0.4, output: 1.6 },
+    'openai/gpt-4.1-nano': { cacheRead: 0.025, input: 0.1, output: 0.4 },
+    'openai/gpt-4o': { cacheRead: 1.25, input: 2.5, output: 10 },
+    'openai/gpt-4o-mini': { cacheRead: 0.075, input: 0.15, output: 0.6 },
+    'openai/gpt-5': { cacheRead: 0.125, input: 1.25, output: 10 },
+    'openai/gpt-5-mini': { cacheRead: 0.025, input: 0.25, output: 2 },
+    'openai/gpt-5-nano': { cacheRead: 0.005, input: 0.05, output: 0.4 },
+    'openai/o3': { cacheRead: 0.5, input: 2, output: 8 },
+    'openai/o3-mini': { cacheRead: 0.55, input: 1.1, output: 4.4 },
+    'openai/o4-mini': { cacheRead: 0.275, input: 1.1, output: 4.4 },
+};
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'vitest';
+
+import { findCataloguePricing } from './pricing-catalogue.js';
+
+describe('findCataloguePricing', () => {
+    test('matches OpenRouter model ids as-is', () => {
+        expect(findCataloguePricing('openrouter', 'openai/gpt-4o-mini')).toEqual({
+            cacheRead: 0.075,
+            input: 0.15,
+            output: 0.6,
+        });
+    });
+
+    test('matches direct provider ids against their vendor entries', () => {
+        expect(findCataloguePricing('openai', 'gpt-4o-mini')).toEqual(
+            findCataloguePricing('openrouter', 'openai/gpt-4o-mini'),
+        );
+        expect(findCataloguePricing('mistral', 'mistral-large')).toEqual(
+            findCataloguePricing('openrouter', 'mistralai/mistral-large'),
+        );
+    });
+
+    test('matches dated, latest and dashed-version ids', () => {
+        // Given -- the catalogue lists `anthropic/claude-3.5-haiku` and `anthropic/claude-sonnet-4`
+        const haiku = findCataloguePricing('openrouter', 'anthropic/claude-3.5-haiku');
+        const sonnet = findCataloguePricing('openrouter', 'anthropic/claude-sonnet-4');
+
+        // Then
+        expect(findCataloguePricing('anthropic', 'claude-3-5-haiku-20241022')).toEqual(haiku);
+        expect(findCataloguePricing('anthropic', 'claude-3-5-haiku-latest')).toEqual(haiku);
+        expect(findCataloguePricing('anthropic', 'claude-sonnet-4-0')).toEqual(sonnet);
+        expect(findCataloguePricing('openai', 'gpt-4o-2024-08-06')).toEqual(
+            findCataloguePricing('openai', 'gpt-4o'),
+        );
+    });
+
+    test('keeps the .0 of versions outside Anthropic aliases', () => {
+        // Given -- the catalogue lists `google/gemini-2.0-flash-001` and `openai/gpt-5-mini`
+        const flash = findCataloguePricing('openrouter', 'google/gemini-2.0-flash-001');
+
+        // Then
+        expect(flash).toBeDefined();
+        expect(findCataloguePricing('google', 'gemini-2.0-flash-001')).toEqual(flash);
+        expect(findCataloguePricing('openai', 'gpt-5.0-mini')).toBeUndefined();
+    });
+
+    test('returns undefined for unknown models and unmapped provider types', () => {
+        expect(findCataloguePricing('openai', 'not-a-model')).toBeUndefined();
+        expect(findCataloguePricing('gateway', 'gpt-4o-mini')).toBeUndefined();
+        expect(findCataloguePricing('bedrock', 'anthropic/claude-sonnet-4')).toBeUndefined();
+    });
+});
@@ -0,0 +1,66 @@
+import type { CostPricing } from '../middleware/cost.middleware.js';
+import { GENERATED_PRICING } from './pricing-catalogue.generated.js';
+
+/** Catalogue vendor of the models served by each direct provider type */
+const PROVIDER_VENDORS: Record<string, string> = {
+    anthropic: 'anthropic',
+    google: 'google',
+    mistral: 'mistralai',
+    openai: 'openai',
+};
+
+/**
+ * Catalogue ids a provider-side model id may be listed under: as-is, without
+ * a date or `-latest` suffix (`claude-3-5-haiku-20241022`), then with
+ * dotted versions (`claude-3.5-haiku`). Anthropic's `-0` aliases name the
+ * first release of a major version, listed without it (`claude-sonnet-4-0`
+ * is `claude-sonnet-4`); elsewhere, a `.0` is a real version
+ * (`gemini-2.0-flash-001`).
+ */
+function candidateIds(vendor: string, modelId: string): string[] {
+    const undated = modelId.replace(/-(?:latest|\d{8}|\d{4}-\d{2}-\d{2})$/, '');
+    const dotted = undated.replace(/(\d)-(\d)(?=-|$)/g, '$1.$2');
+    const ids = [modelId, undated, dotted];
+    if (vendor === 'anthropic') {
+        ids.push(undated.replace(/-0$/, ''));
+    }
+    return [...new Set(ids)];
+}
+
+/**
+ * Looks up the bundled pricing snapshot for a model, by the `type` of its
+ * provider and its model id: OpenRouter ids (`'anthropic/claude-sonnet-4'`)
+ * are matched as-is, direct provider ids (`'claude-sonnet-4-20250514'`)
+ * against their vendor's entries. Returns `undefined` for unknown models and
+ * for provider types the catalogue can't map, such as gateways and custom
+ * providers.
+ *
+ * The snapshot is regenerated with `npm run generate:pricing`, so it lags
+ * behind price changes: prefer an explicit `pricing` entry where accuracy
+ * matters.
+ *
+ * @example
+ * ```ts
+ * findCataloguePricing('anthropic', 'claude-3-5-haiku-latest');
+ * // { cacheRead: 0.08, cacheWrite: 1, input: 0.8, output: 4 }
+ * ```
+ */
+export function findCataloguePricing(
+    providerType: string,
+    modelId: string,
+): CostPricing | undefined {
+    if (providerType === 'openrouter') {
+        return GENERATED_PRICING[modelId];
+    }
+    const vendor = PROVIDER_VENDORS[providerType];
+    if (!vendor) {
+        return undefined;
+    }
+    for (const id of candidateIds(vendor, modelId)) {
+        const pricing = GENERATED_PRICING[`${vendor}/${id}`];
+        if (pricing) {
+            return pricing;
+        }
+    }
+    return undefined;
+}
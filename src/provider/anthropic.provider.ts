@@ -0,0 +1,43 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import type { LanguageModelV4 } from '@ai-sdk/provider';
+import type { LanguageModel } from 'ai';
+
+export interface AnthropicConfig {
+    apiKey: string;
+    /** Base URL override, e.g. to go through a proxy (default: the official endpoint) */
+    baseURL?: string;
+}
+
+export interface AnthropicProvider {
+    /** Get a language model instance for the given Anthropic model id */
+    model: (id: string) => LanguageModel;
+}
+
+/**
+ * Creates a provider calling the Anthropic Messages API directly, through the official
+ * AI SDK provider — no OpenRouter hop in between.
+ *
+ * @example
+ * ```ts
+ * const provider = createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY });
+ * const model = provider.model('claude-sonnet-4-20250514');
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   prompt: 'Hello!',
+ *   providerOptions: { anthropic: { thinking: { type: 'enabled', budgetTokens: 4096 } } },
+ * });
+ * ```
+ */
+export function createAnthropicProvider(config: AnthropicConfig): AnthropicProvider {
+    const anthropic = createAnthropic({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+    });
+
+    return {
+        model(id: string): LanguageModelV4 {
+            return anthropic(id);
+        },
+    };
+}
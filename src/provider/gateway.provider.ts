@@ -1,6 +1,18 @@
 import { createOpenAI } from '@ai-sdk/openai';
-import type { LanguageModelV4 } from '@ai-sdk/provider';
-import { extractJsonMiddleware, type LanguageModel, wrapLanguageModel } from 'ai';
+import type {
+    EmbeddingModelV4,
+    ImageModelV4,
+    LanguageModelV4,
+    TranscriptionModelV4,
+} from '@ai-sdk/provider';
+import {
+    type EmbeddingModel,
+    extractJsonMiddleware,
+    type ImageModel,
+    type LanguageModel,
+    type TranscriptionModel,
+    wrapLanguageModel,
+} from 'ai';
 
 import { createSchemaInstructionMiddleware } from '../middleware/schema-instruction.middleware.js';
 
@@ -14,6 +26,12 @@ export interface GatewayConfig {
 export interface GatewayProvider {
     /** Get a language model instance for the given model id */
     model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given model id (`/embeddings` endpoint) */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** Get an image model instance for the given model id */
+    imageModel: (id: string) => ImageModel;
+    /** Get a transcription model instance for the given model id */
+    transcriptionModel: (id: string) => TranscriptionModel;
 }
 
 /**
@@ -41,6 +59,14 @@ export function createGatewayProvider(config: GatewayConfig): GatewayProvider {
     });
 
     return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return openai.embeddingModel(id);
+        },
+
+        imageModel(id: string): ImageModelV4 {
+            return openai.imageModel(id);
+        },
+
         model(id: string): LanguageModelV4 {
             // Use `.chat()` explicitly rather than the base callable, which
             // Targets the Responses API — most gateways only implement chat
@@ -50,5 +76,9 @@ export function createGatewayProvider(config: GatewayConfig): GatewayProvider {
                 middleware: [createSchemaInstructionMiddleware(), extractJsonMiddleware()],
             });
         },
+
+        transcriptionModel(id: string): TranscriptionModelV4 {
+            return openai.transcription(id);
+        },
     };
 }
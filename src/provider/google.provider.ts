@@ -0,0 +1,66 @@
+import { createGoogle } from '@ai-sdk/google';
+import type {
+    EmbeddingModelV4,
+    ImageModelV4,
+    LanguageModelV4,
+    TranscriptionModelV4,
+} from '@ai-sdk/provider';
+import type { EmbeddingModel, ImageModel, LanguageModel, TranscriptionModel } from 'ai';
+
+export interface GoogleConfig {
+    apiKey: string;
+    /** Base URL override, e.g. to go through a proxy (default: the official endpoint) */
+    baseURL?: string;
+}
+
+export interface GoogleProvider {
+    /** Get a language model instance for the given Google model id */
+    model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given Google model id */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** Get an image model instance for the given Google model id */
+    imageModel: (id: string) => ImageModel;
+    /** Get a transcription model instance for the given Google model id */
+    transcriptionModel: (id: string) => TranscriptionModel;
+}
+
+/**
+ * Creates a provider calling the Google Generative AI (Gemini) API directly, through the official
+ * AI SDK provider — no OpenRouter hop in between.
+ *
+ * @example
+ * ```ts
+ * const provider = createGoogleProvider({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY });
+ * const model = provider.model('gemini-2.5-flash');
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   prompt: 'Hello!',
+ *   providerOptions: { google: { thinkingConfig: { thinkingBudget: 1024 } } },
+ * });
+ * ```
+ */
+export function createGoogleProvider(config: GoogleConfig): GoogleProvider {
+    const google = createGoogle({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+    });
+
+    return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return google.embeddingModel(id);
+        },
+
+        imageModel(id: string): ImageModelV4 {
+            return google.image(id);
+        },
+
+        model(id: string): LanguageModelV4 {
+            return google(id);
+        },
+
+        transcriptionModel(id: string): TranscriptionModelV4 {
+            return google.transcriptionModel(id);
+        },
+    };
+}
@@ -0,0 +1,55 @@
+import { createMistral } from '@ai-sdk/mistral';
+import type { EmbeddingModelV4, LanguageModelV4, TranscriptionModelV4 } from '@ai-sdk/provider';
+import type { EmbeddingModel, LanguageModel, TranscriptionModel } from 'ai';
+
+export interface MistralConfig {
+    apiKey: string;
+    /** Base URL override, e.g. to go through a proxy (default: the official endpoint) */
+    baseURL?: string;
+}
+
+export interface MistralProvider {
+    /** Get a language model instance for the given Mistral model id */
+    model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given Mistral model id */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** Get a transcription model instance for the given Mistral model id */
+    transcriptionModel: (id: string) => TranscriptionModel;
+}
+
+/**
+ * Creates a provider calling the Mistral API directly, through the official
+ * AI SDK provider — no OpenRouter hop in between.
+ *
+ * @example
+ * ```ts
+ * const provider = createMistralProvider({ apiKey: process.env.MISTRAL_API_KEY });
+ * const model = provider.model('mistral-large-latest');
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   prompt: 'Hello!',
+ *   providerOptions: { mistral: { safePrompt: true } },
+ * });
+ * ```
+ */
+export function createMistralProvider(config: MistralConfig): MistralProvider {
+    const mistral = createMistral({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+    });
+
+    return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return mistral.embeddingModel(id);
+        },
+
+        model(id: string): LanguageModelV4 {
+            return mistral(id);
+        },
+
+        transcriptionModel(id: string): TranscriptionModelV4 {
+            return mistral.transcriptionModel(id);
+        },
+    };
+}
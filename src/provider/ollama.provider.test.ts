@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+import { createOllamaProvider } from './ollama.provider.js';
+
+function jsonResponse(body: unknown, status = 200) {
+    return new Response(JSON.stringify(body), {
+        headers: { 'content-type': 'application/json' },
+        status,
+    });
+}
+
+const chatCompletion = {
+    choices: [{ finish_reason: 'stop', index: 0, message: { content: 'hi', role: 'assistant' } }],
+    created: 0,
+    id: 'chatcmpl-1',
+    model: 'llama3.1:8b',
+    object: 'chat.completion',
+    usage: { completion_tokens: 1, prompt_tokens: 2, total_tokens: 3 },
+};
+
+describe('createOllamaProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    test('sends chat completions to the local server with keep-alive', async () => {
+        // Given
+        const fetchMock = vi.fn(async () => jsonResponse(chatCompletion));
+        vi.stubGlobal('fetch', fetchMock);
+        const provider = createOllamaProvider({ keepAlive: '30m' });
+
+        // When
+        await (
+            provider.model('llama3.1:8b') as never as { doGenerate: (o: unknown) => unknown }
+        ).doGenerate({ prompt: [{ content: [{ text: 'Hello', type: 'text' }], role: 'user' }] });
+
+        // Then
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(JSON.parse(init.body as string)).toMatchObject({
+            keep_alive: '30m',
+            model: 'llama3.1:8b',
+        });
+    });
+
+    test('lists the models available on the local server', async () => {
+        // Given
+        const fetchMock = vi.fn(async () =>
+            jsonResponse({ data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5:14b' }], object: 'list' }),
+        );
+        vi.stubGlobal('fetch', fetchMock);
+        const provider = createOllamaProvider({ baseURL: 'http://gpu-box:11434/' });
+
+        // When
+        const models = await provider.listModels();
+
+        // Then
+        expect(models).toEqual(['llama3.1:8b', 'qwen2.5:14b']);
+        expect(fetchMock).toHaveBeenCalledWith('http://gpu-box:11434/v1/models');
+    });
+
+    test('throws when the local server cannot list its models', async () => {
+        // Given
+        vi.stubGlobal(
+            'fetch',
+            vi.fn(async () => jsonResponse({}, 503)),
+        );
+        const provider = createOllamaProvider();
+
+        // Then
+        await expect(provider.listModels()).rejects.toThrow(
+            'Failed to list local models at http://localhost:11434: HTTP 503',
+        );
+    });
+});
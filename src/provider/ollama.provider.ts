@@ -0,0 +1,89 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type { EmbeddingModelV4, LanguageModelV4 } from '@ai-sdk/provider';
+import type { EmbeddingModel, LanguageModel } from 'ai';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+export interface OllamaConfig {
+    /** Root URL of the local server, without `/v1` (default: `http://localhost:11434`) */
+    baseURL?: string;
+    /**
+     * How long Ollama keeps the model loaded after a request, as a duration
+     * (`'10m'`) or seconds (`-1` keeps it loaded indefinitely)
+     */
+    keepAlive?: number | string;
+}
+
+export interface OllamaProvider {
+    /** Get a language model instance for the given local model id */
+    model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given local model id */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** List the ids of the models available on the local server */
+    listModels: () => Promise<string[]>;
+}
+
+/**
+ * Creates a provider for local models served by Ollama or llama.cpp
+ * (`llama-server`), through their OpenAI-compatible chat-completions API.
+ *
+ * Unlike `createGatewayProvider`, models are not wrapped with schema
+ * injection or JSON-fence stripping: both servers honor `response_format`
+ * natively. `keepAlive` is added to every request body as Ollama's
+ * `keep_alive` field; llama.cpp ignores it. The OpenAI-compatible API cannot
+ * set the context window: configure it on the server instead, with
+ * `OLLAMA_CONTEXT_LENGTH` or a Modelfile's `PARAMETER num_ctx`.
+ *
+ * @example
+ * ```ts
+ * const provider = createOllamaProvider({ keepAlive: '30m' });
+ * console.log(await provider.listModels()); // ['llama3.1:8b', 'qwen2.5:14b']
+ *
+ * const { text } = await generateText({
+ *   model: provider.model('llama3.1:8b'),
+ *   prompt: 'Hello!',
+ * });
+ * ```
+ */
+export function createOllamaProvider(config: OllamaConfig = {}): OllamaProvider {
+    const { keepAlive } = config;
+    const baseURL = (config.baseURL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    const injectKeepAlive: typeof fetch = async (input, init) => {
+        if (typeof init?.body !== 'string' || keepAlive === undefined) {
+            return fetch(input, init);
+        }
+        const body = JSON.parse(init.body) as Record<string, unknown>;
+        body.keep_alive = keepAlive;
+        return fetch(input, { ...init, body: JSON.stringify(body) });
+    };
+
+    const openai = createOpenAI({
+        // Local servers don't check the key, but the OpenAI client requires one.
+        apiKey: 'ollama',
+        baseURL: `${baseURL}/v1`,
+        fetch: injectKeepAlive,
+        name: 'ollama',
+    });
+
+    return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return openai.embeddingModel(id);
+        },
+
+        async listModels(): Promise<string[]> {
+            const response = await fetch(`${baseURL}/v1/models`);
+            if (!response.ok) {
+                throw new Error(
+                    `Failed to list local models at ${baseURL}: HTTP ${response.status}`,
+                );
+            }
+            const { data } = (await response.json()) as { data: Array<{ id: string }> };
+            return data.map((model) => model.id);
+        },
+
+        model(id: string): LanguageModelV4 {
+            return openai.chat(id);
+        },
+    };
+}
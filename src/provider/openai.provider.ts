@@ -0,0 +1,70 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import type {
+    EmbeddingModelV4,
+    ImageModelV4,
+    LanguageModelV4,
+    TranscriptionModelV4,
+} from '@ai-sdk/provider';
+import type { EmbeddingModel, ImageModel, LanguageModel, TranscriptionModel } from 'ai';
+
+export interface OpenAIConfig {
+    apiKey: string;
+    /** Base URL override, e.g. to go through a proxy (default: the official endpoint) */
+    baseURL?: string;
+}
+
+export interface OpenAIProvider {
+    /** Get a language model instance for the given OpenAI model id */
+    model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given OpenAI model id */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** Get an image model instance for the given OpenAI model id */
+    imageModel: (id: string) => ImageModel;
+    /** Get a transcription model instance for the given OpenAI model id */
+    transcriptionModel: (id: string) => TranscriptionModel;
+}
+
+/**
+ * Creates a provider calling the OpenAI API directly, through the official
+ * AI SDK provider — no OpenRouter hop in between.
+ *
+ * Models target the Responses API, OpenAI's recommended endpoint. For an
+ * OpenAI-compatible gateway speaking only chat completions, use
+ * `createGatewayProvider` instead.
+ *
+ * @example
+ * ```ts
+ * const provider = createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+ * const model = provider.model('gpt-4o-mini');
+ *
+ * const { text } = await generateText({
+ *   model,
+ *   prompt: 'Hello!',
+ *   providerOptions: { openai: { reasoningEffort: 'low' } },
+ * });
+ * ```
+ */
+export function createOpenAIProvider(config: OpenAIConfig): OpenAIProvider {
+    const openai = createOpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+    });
+
+    return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return openai.embeddingModel(id);
+        },
+
+        imageModel(id: string): ImageModelV4 {
+            return openai.imageModel(id);
+        },
+
+        model(id: string): LanguageModelV4 {
+            return openai(id);
+        },
+
+        transcriptionModel(id: string): TranscriptionModelV4 {
+            return openai.transcription(id);
+        },
+    };
+}
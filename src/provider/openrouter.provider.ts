@@ -1,6 +1,6 @@
-import type { LanguageModelV4 } from '@ai-sdk/provider';
+import type { EmbeddingModelV4, ImageModelV4, LanguageModelV4 } from '@ai-sdk/provider';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import type { LanguageModel } from 'ai';
+import type { EmbeddingModel, ImageModel, LanguageModel } from 'ai';
 
 export interface OpenRouterMetadata {
     /** Application name, sent as the `X-OpenRouter-Title` header for dashboard attribution */
@@ -17,6 +17,10 @@ export interface OpenRouterConfig {
 export interface OpenRouterProvider {
     /** Get a language model instance for the given OpenRouter model id */
     model: (id: string) => LanguageModel;
+    /** Get an embedding model instance for the given OpenRouter model id */
+    embeddingModel: (id: string) => EmbeddingModel;
+    /** Get an image model instance for the given OpenRouter model id */
+    imageModel: (id: string) => ImageModel;
 }
 
 /**
@@ -46,6 +50,14 @@ export function createOpenRouterProvider(config: OpenRouterConfig): OpenRouterPr
     });
 
     return {
+        embeddingModel(id: string): EmbeddingModelV4 {
+            return openrouter.textEmbeddingModel(id);
+        },
+
+        imageModel(id: string): ImageModelV4 {
+            return openrouter.imageModel(id);
+        },
+
         model(id: string): LanguageModelV4 {
             return openrouter(id);
         },
@@ -0,0 +1,113 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { createRedactingTracer, createRedactor } from './redaction.js';
+
+describe('createRedactor', () => {
+    test('masks emails, phone numbers, API keys and card numbers by default', () => {
+        // Given
+        const redact = createRedactor();
+
+        // When
+        const redacted = redact(
+            'Reach jane.doe+ai@example.co.uk, +33 6 12 34 56 78 or (555) 123-4567, ' +
+                'key sk-proj-abcdefghijklmnop1234, header Bearer eyJhbGciOiJIUzI1NiJ9.e30, ' +
+                'card 4242 4242 4242 4242',
+        );
+
+        // Then
+        expect(redacted).toBe(
+            'Reach [REDACTED:email], [REDACTED:phone] or [REDACTED:phone], ' +
+                'key [REDACTED:apiKey], header Bearer [REDACTED:apiKey], ' +
+                'card [REDACTED:cardNumber]',
+        );
+    });
+
+    test('keeps dates, ids and numbers failing the card checksum', () => {
+        const redact = createRedactor();
+
+        const text = 'Order 1234567890123 of 2025-01-15, ticket 4242 4242 4242 4241';
+
+        expect(redact(text)).toBe(text);
+    });
+
+    test('applies only the selected detectors, then custom redactors', () => {
+        // Given
+        const redact = createRedactor({
+            detectors: ['email'],
+            redactors: [/\bACME-\d{6}\b/, (text) => text.replaceAll('Jane', 'J.')],
+        });
+
+        // When
+        const redacted = redact(
+            'Jane (jane@example.com) owns ACME-123456 and ACME-654321, 0612345678',
+        );
+
+        // Then
+        expect(redacted).toBe('J. ([REDACTED:email]) owns [REDACTED] and [REDACTED], 0612345678');
+    });
+
+    test('redacts nested strings and masks fields by path, without mutating the value', () => {
+        // Given
+        const redact = createRedactor({ paths: ['params.prompt.*.content', 'ai.prompt'] });
+        const file = new Uint8Array([1, 2, 3]);
+        const value = {
+            'ai.prompt': 'Hello',
+            model: 'gpt-4o',
+            params: {
+                prompt: [{ content: 'My secret', role: 'user' }],
+                temperature: 0.2,
+            },
+            files: [file],
+            note: 'from jane@example.com',
+        };
+
+        // When
+        const redacted = redact(value);
+
+        // Then
+        expect(redacted).toEqual({
+            'ai.prompt': '[REDACTED]',
+            files: [file],
+            model: 'gpt-4o',
+            note: 'from [REDACTED:email]',
+            params: {
+                prompt: [{ content: '[REDACTED]', role: 'user' }],
+                temperature: 0.2,
+            },
+        });
+        expect(value.params.prompt[0].content).toBe('My secret');
+    });
+});
+
+describe('createRedactingTracer', () => {
+    test('redacts span attributes at start and when set', () => {
+        // Given
+        const span = { end: vi.fn(), setAttribute: vi.fn(), setAttributes: vi.fn() };
+        const tracer = { startActiveSpan: vi.fn(), startSpan: vi.fn(() => span) };
+        const redactingTracer = createRedactingTracer(
+            tracer as never,
+            createRedactor({ paths: ['gen_ai.input.messages'] }),
+        );
+
+        // When
+        const started = redactingTracer.startSpan('chat', {
+            attributes: { 'gen_ai.input.messages': '[{"content":"Hi"}]' },
+        });
+        started.setAttribute('gen_ai.output.messages', 'Write to jane@example.com');
+        started.setAttributes({ 'gen_ai.input.messages': 'Hi again' });
+        started.end();
+
+        // Then
+        expect(tracer.startSpan).toHaveBeenCalledWith(
+            'chat',
+            { attributes: { 'gen_ai.input.messages': '[REDACTED]' } },
+            undefined,
+        );
+        expect(span.setAttribute).toHaveBeenCalledWith(
+            'gen_ai.output.messages',
+            'Write to [REDACTED:email]',
+        );
+        expect(span.setAttributes).toHaveBeenCalledWith({ 'gen_ai.input.messages': '[REDACTED]' });
+        expect(span.end).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,210 @@
+import type { Attributes, AttributeValue, Span, SpanOptions, Tracer } from '@opentelemetry/api';
+
+/** Built-in detectors of sensitive values in free text */
+type RedactionDetector = 'apiKey' | 'cardNumber' | 'email' | 'phone';
+
+/** A pattern replaced by `[REDACTED]`, or a function rewriting each string */
+type TextRedactor = ((text: string) => string) | RegExp;
+
+interface RedactionOptions {
+    /** Detectors applied to every string (default: all of them) */
+    detectors?: RedactionDetector[];
+    /** Applied to every string after the detectors */
+    redactors?: TextRedactor[];
+    /**
+     * Fields whose value is masked as a whole, as dot-separated paths from the
+     * redacted value, `*` matching any key or array index — e.g.
+     * `'params.prompt.*.content'`. Dotted keys such as span attribute names
+     * (`'ai.prompt'`) match as-is.
+     */
+    paths?: string[];
+}
+
+/** Returns a copy of a value with its sensitive strings and fields masked */
+type Redactor = <T>(value: T) => T;
+
+const MASK = '[REDACTED]';
+
+/** Luhn checksum, so that long numbers (ids, timestamps) aren't taken for cards */
+function isCardNumber(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    let sum = 0;
+    for (let index = 0; index < digits.length; index++) {
+        let digit = Number(digits[digits.length - 1 - index]);
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+// Ordered so that a value is masked by its most specific detector: API keys
+// And card numbers before the phone numbers their digits would also match.
+const DETECTORS: Array<[RedactionDetector, (text: string) => string]> = [
+    [
+        'apiKey',
+        (text) =>
+            text
+                .replace(
+                    /\b(?:sk-[\w-]{16,}|AKIA[\dA-Z]{16}|AIza[\w-]{35}|gh[oprsu]_\w{36,}|github_pat_\w{22,}|xox[abprs]-[\dA-Za-z-]{10,})/g,
+                    '[REDACTED:apiKey]',
+                )
+                .replace(/\b(Bearer\s+)[\w+./~-]{16,}=*/gi, '$1[REDACTED:apiKey]'),
+    ],
+    [
+        'cardNumber',
+        (text) =>
+            text.replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) =>
+                isCardNumber(match) ? '[REDACTED:cardNumber]' : match,
+            ),
+    ],
+    [
+        'email',
+        (text) => text.replace(/[\w%+.-]+@[\dA-Za-z-]+(?:\.[\dA-Za-z-]+)+/g, '[REDACTED:email]'),
+    ],
+    [
+        'phone',
+        (text) =>
+            text.replace(
+                /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]?\d{1,4}){1,5}(?!\w)/g,
+                (match) => {
+                    // Unformatted or below 9 digits, ids, timestamps and dates match too.
+                    const digits = match.replace(/\D/g, '').length;
+                    const formatted = /[\s()+.-]/.test(match);
+                    return formatted && digits >= 9 && digits <= 15 ? '[REDACTED:phone]' : match;
+                },
+            ),
+    ],
+];
+
+function toTextRedactor(redactor: TextRedactor): (text: string) => string {
+    if (typeof redactor === 'function') {
+        return redactor;
+    }
+    const global = redactor.flags.includes('g')
+        ? redactor
+        : new RegExp(redactor.source, `${redactor.flags}g`);
+    return (text) => text.replace(global, MASK);
+}
+
+/** `'params.*.content'` → a pattern over dot-joined key paths */
+function toPathPattern(path: string): RegExp {
+    const segments = path
+        .split('.')
+        .map((segment) =>
+            segment === '*' ? '[^.]+' : segment.replace(/[$()*+.?[\\\]^{|}]/g, '\\$&'),
+        );
+    return new RegExp(`^${segments.join('\\.')}$`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Creates a redactor masking sensitive data in a value before it leaves the
+ * process — emails, phone numbers, API keys and card numbers in every string
+ * by default, plus custom patterns and field paths.
+ *
+ * Strings are redacted inside plain objects and arrays, at any depth; other
+ * values (numbers, binary file data, class instances) are kept as-is. The
+ * value itself is never mutated.
+ *
+ * @example
+ * ```ts
+ * const redact = createRedactor({
+ *   redactors: [/\bACME-\d{6}\b/],
+ *   paths: ['params.headers'],
+ * });
+ *
+ * redact({ note: 'Mail jane@example.com about ACME-123456' });
+ * // { note: 'Mail [REDACTED:email] about [REDACTED]' }
+ * ```
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+    const detectors = new Set(options.detectors ?? DETECTORS.map(([detector]) => detector));
+    const textRedactors = [
+        ...DETECTORS.filter(([detector]) => detectors.has(detector)).map(([, redact]) => redact),
+        ...(options.redactors ?? []).map(toTextRedactor),
+    ];
+    const pathPatterns = (options.paths ?? []).map(toPathPattern);
+
+    function redactValue(value: unknown, path: string | undefined): unknown {
+        if (path !== undefined && pathPatterns.some((pattern) => pattern.test(path))) {
+            return MASK;
+        }
+        if (typeof value === 'string') {
+            return textRedactors.reduce((text, redact) => redact(text), value);
+        }
+        const childPath = (key: number | string) =>
+            path === undefined ? String(key) : `${path}.${key}`;
+        if (Array.isArray(value)) {
+            return value.map((item, index) => redactValue(item, childPath(index)));
+        }
+        if (isPlainObject(value)) {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [
+                    key,
+                    redactValue(item, childPath(key)),
+                ]),
+            );
+        }
+        return value;
+    }
+
+    return <T>(value: T) => redactValue(value, undefined) as T;
+}
+
+function createRedactingSpan(span: Span, redact: Redactor): Span {
+    return new Proxy(span, {
+        get(target, property, receiver) {
+            if (property === 'setAttribute') {
+                return (key: string, value: AttributeValue) => {
+                    target.setAttribute(key, redact({ [key]: value })[key]);
+                    return receiver;
+                };
+            }
+            if (property === 'setAttributes') {
+                return (attributes: Attributes) => {
+                    target.setAttributes(redact(attributes));
+                    return receiver;
+                };
+            }
+            const member = Reflect.get(target, property, target);
+            return typeof member === 'function' ? member.bind(target) : member;
+        },
+    });
+}
+
+/**
+ * Wraps an OpenTelemetry tracer so that the attributes of the spans it
+ * starts are redacted — at start and whenever they are set — before any
+ * exporter sees them. Attribute names are the paths redaction options match.
+ *
+ * Covers spans started with `startSpan`, as `@ai-sdk/otel` does; spans
+ * started with `startActiveSpan` are passed through unredacted.
+ */
+export function createRedactingTracer(tracer: Tracer, redact: Redactor): Tracer {
+    return {
+        startActiveSpan: tracer.startActiveSpan.bind(tracer),
+        startSpan: (name, options: SpanOptions = {}, context) =>
+            createRedactingSpan(
+                tracer.startSpan(
+                    name,
+                    { ...options, attributes: options.attributes && redact(options.attributes) },
+                    context,
+                ),
+                redact,
+            ),
+    };
+}
+
+export type { RedactionDetector, RedactionOptions, Redactor, TextRedactor };
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest';
+
+import { createUsageLedger, type UsageRecord } from './usage-ledger.js';
+
+function usageRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+    return {
+        agent: 'summarizer',
+        costUsd: 0.01,
+        error: false,
+        inputTokens: 100,
+        modelRef: 'openrouter/model-a',
+        outputTokens: 50,
+        timestamp: new Date(),
+        ...overrides,
+    };
+}
+
+describe('createUsageLedger', () => {
+    test('aggregates records overall, per agent and per model', () => {
+        // Given
+        const ledger = createUsageLedger();
+
+        // When
+        ledger.record(usageRecord());
+        ledger.record(
+            usageRecord({ costUsd: undefined, error: true, inputTokens: 0, outputTokens: 0 }),
+        );
+        ledger.record(usageRecord({ agent: 'translator', modelRef: 'openrouter/model-b' }));
+        ledger.record(usageRecord({ agent: undefined, modelRef: 'openai/text-embedding-3-small' }));
+
+        // Then
+        const summary = ledger.summary();
+        expect(summary.total).toEqual({
+            calls: 4,
+            costUsd: 0.03,
+            errors: 1,
+            inputTokens: 300,
+            outputTokens: 150,
+        });
+        expect(summary.byAgent.summarizer).toEqual({
+            calls: 2,
+            costUsd: 0.01,
+            errors: 1,
+            inputTokens: 100,
+            outputTokens: 50,
+        });
+        expect(Object.keys(summary.byAgent)).toEqual(['summarizer', 'translator']);
+        expect(Object.keys(summary.byModel)).toEqual([
+            'openrouter/model-a',
+            'openrouter/model-b',
+            'openai/text-embedding-3-small',
+        ]);
+    });
+
+    test('returns snapshots unaffected by later records', () => {
+        // Given
+        const ledger = createUsageLedger();
+        ledger.record(usageRecord());
+        const before = ledger.summary();
+
+        // When
+        ledger.record(usageRecord());
+
+        // Then
+        expect(before.total.calls).toBe(1);
+        expect(before.byAgent.summarizer.calls).toBe(1);
+    });
+});
@@ -0,0 +1,83 @@
+import type { CallUsage } from '../middleware/cost.middleware.js';
+
+/** One model call, as recorded by `createIntelligence` and passed to `onUsage` */
+export interface UsageRecord extends CallUsage {
+    /** Agent the call was made for; `undefined` for embedding, image and transcription models */
+    agent: string | undefined;
+    timestamp: Date;
+}
+
+export interface UsageTotals {
+    /** Model calls, each retry and fallback attempt included */
+    calls: number;
+    /** Calls that failed */
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    /** USD spent, counting only calls whose cost could be determined */
+    costUsd: number;
+}
+
+export interface UsageSummary {
+    total: UsageTotals;
+    /** Totals per agent name */
+    byAgent: Record<string, UsageTotals>;
+    /** Totals per `"<provider>/<model>"` reference */
+    byModel: Record<string, UsageTotals>;
+}
+
+export interface UsageLedger {
+    record: (usage: UsageRecord) => void;
+    /** A snapshot of the totals recorded so far */
+    summary: () => UsageSummary;
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, costUsd: 0, errors: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+function add(totals: UsageTotals, usage: UsageRecord): void {
+    totals.calls++;
+    totals.errors += usage.error ? 1 : 0;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.costUsd += usage.costUsd ?? 0;
+}
+
+function addTo(group: Map<string, UsageTotals>, key: string, usage: UsageRecord): void {
+    let totals = group.get(key);
+    if (!totals) {
+        totals = emptyTotals();
+        group.set(key, totals);
+    }
+    add(totals, usage);
+}
+
+function snapshot(group: Map<string, UsageTotals>): Record<string, UsageTotals> {
+    return Object.fromEntries([...group].map(([key, totals]) => [key, { ...totals }]));
+}
+
+/**
+ * Creates an in-memory ledger aggregating usage records into totals — overall,
+ * per agent and per model reference. Only totals are kept, so memory stays
+ * flat however many calls are recorded.
+ */
+export function createUsageLedger(): UsageLedger {
+    const total = emptyTotals();
+    const byAgent = new Map<string, UsageTotals>();
+    const byModel = new Map<string, UsageTotals>();
+
+    return {
+        record(usage) {
+            add(total, usage);
+            if (usage.agent !== undefined) {
+                addTo(byAgent, usage.agent, usage);
+            }
+            addTo(byModel, usage.modelRef, usage);
+        },
+
+        summary() {
+            return { byAgent: snapshot(byAgent), byModel: snapshot(byModel), total: { ...total } };
+        },
+    };
+}
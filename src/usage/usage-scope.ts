@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { createUsageLedger, type UsageLedger } from './usage-ledger.js';
+
+/** Ledgers of one scope, one per owner — e.g. per `createIntelligence` instance */
+const storage = new AsyncLocalStorage<WeakMap<object, UsageLedger>>();
+
+/**
+ * Runs `fn` in a fresh usage scope: `intelligence.usage({ scoped: true })`,
+ * called within it, only totals the calls that instance made within it —
+ * typically one incoming request or one job. Instances sharing a scope keep
+ * their scoped usage apart.
+ *
+ * @example
+ * ```ts
+ * await withUsageScope(async () => {
+ *   await generateText({ model: intelligence.model('summarizer'), prompt });
+ *   const { total } = intelligence.usage({ scoped: true });
+ *   logger.info('request.cost', { costUsd: total.costUsd });
+ * });
+ * ```
+ */
+export function withUsageScope<T>(fn: () => T): T {
+    return storage.run(new WeakMap(), fn);
+}
+
+/**
+ * The ledger `owner` keeps in the usage scope of the current async context,
+ * created on first use — `undefined` outside any scope
+ */
+export function activeUsageLedger(owner: object): UsageLedger | undefined {
+    const ledgers = storage.getStore();
+    if (!ledgers) {
+        return undefined;
+    }
+    let ledger = ledgers.get(owner);
+    if (!ledger) {
+        ledger = createUsageLedger();
+        ledgers.set(owner, ledger);
+    }
+    return ledger;
+}